@@ -1,10 +1,26 @@
 import * as vscode from 'vscode';
-import { BranchPrefix, BranchConfigurationSchema, DateFormat } from './branchTypes';
+import {
+    BranchPrefix,
+    BranchPrefixSetting,
+    BranchConfigurationSchema,
+    CustomPlaceholder,
+    CustomPlaceholderSetting,
+    DateFormat,
+    DescriptionSlugOptions
+} from './branchTypes';
 import { BranchUtils } from './branchUtils';
 
 export class BranchConfigManager {
     private readonly configurationSection = 'gitWorkflowHelper';
     private readonly defaultBranchNameFormat = '{prefix}/{date}/{description}_{username}';
+    private readonly defaultTicketPattern = '[A-Z][A-Z0-9]+-\\d+';
+    private readonly defaultDescriptionSlug: DescriptionSlugOptions = {
+        enabled: true,
+        pinyin: true,
+        lowercase: true,
+        separator: '-',
+        maxLength: 50
+    };
 
     private getPresetFormat(preset: string, customFormat: string): string {
         switch (preset) {
@@ -29,29 +45,112 @@ export class BranchConfigManager {
     }
 
     /**
-     * 解析分支前缀字符串数组为 BranchPrefix 对象数组
+     * 解析描述转换配置，缺失或非法的字段使用默认值
      */
-    private parseBranchPrefixes(prefixStrings: string[] | undefined): BranchPrefix[] {
-        if (!prefixStrings || !Array.isArray(prefixStrings)) {
+    private parseDescriptionSlug(value: Partial<DescriptionSlugOptions> | undefined): DescriptionSlugOptions {
+        const defaults = this.defaultDescriptionSlug;
+        if (!value || typeof value !== 'object') {
+            return { ...defaults };
+        }
+
+        return {
+            enabled: typeof value.enabled === 'boolean' ? value.enabled : defaults.enabled,
+            pinyin: typeof value.pinyin === 'boolean' ? value.pinyin : defaults.pinyin,
+            lowercase: typeof value.lowercase === 'boolean' ? value.lowercase : defaults.lowercase,
+            separator: typeof value.separator === 'string' && /^[-_.]?$/.test(value.separator)
+                ? value.separator
+                : defaults.separator,
+            maxLength: typeof value.maxLength === 'number' && value.maxLength >= 0
+                ? Math.floor(value.maxLength)
+                : defaults.maxLength
+        };
+    }
+
+    /**
+     * 解析自定义占位符配置，忽略与内置占位符重名或名称不合法的项
+     */
+    private parseCustomPlaceholders(value: Record<string, CustomPlaceholderSetting> | undefined): CustomPlaceholder[] {
+        if (!value || typeof value !== 'object') {
+            return [];
+        }
+
+        const placeholders: CustomPlaceholder[] = [];
+        for (const [name, setting] of Object.entries(value)) {
+            if (!/^[A-Za-z][\w-]*$/.test(name) || BranchUtils.isBuiltinPlaceholder(name)) {
+                console.warn(`忽略自定义占位符 {${name}}：名称不合法或与内置占位符重名`);
+                continue;
+            }
+
+            const options = Array.isArray(setting?.options)
+                ? setting.options
+                    .filter((option): option is string => typeof option === 'string' && option.trim().length > 0)
+                    .map(option => option.trim())
+                : [];
+            placeholders.push({
+                name,
+                description: setting?.description?.trim() || name,
+                options: options.length > 0 ? options : undefined,
+                pattern: setting?.pattern || undefined
+            });
+        }
+        return placeholders;
+    }
+
+    /**
+     * 解析分支前缀配置为 BranchPrefix 对象数组，支持字符串与对象两种写法
+     */
+    private parseBranchPrefixes(prefixSettings: BranchPrefixSetting[] | undefined): BranchPrefix[] {
+        if (!prefixSettings || !Array.isArray(prefixSettings)) {
             return this.getDefaultPrefixes();
         }
 
-        const prefixes = prefixStrings
-            .filter((str): str is string => typeof str === 'string' && str.trim().length > 0)
-            .map(prefix => ({ 
-                prefix: prefix.trim(), 
-                description: prefix.trim()
-            }));
+        const prefixes: BranchPrefix[] = [];
+        for (const setting of prefixSettings) {
+            if (typeof setting === 'string') {
+                if (setting.trim().length > 0) {
+                    prefixes.push({ prefix: setting.trim(), description: setting.trim() });
+                }
+                continue;
+            }
+            if (!setting || typeof setting !== 'object' || typeof setting.prefix !== 'string' || setting.prefix.trim().length === 0) {
+                continue;
+            }
+
+            const prefix = setting.prefix.trim();
+            const allowedBases = Array.isArray(setting.allowedBases)
+                ? setting.allowedBases
+                    .filter((base): base is string => typeof base === 'string' && base.trim().length > 0)
+                    .map(base => base.trim())
+                : [];
+            prefixes.push({
+                prefix,
+                description: setting.description?.trim() || prefix,
+                template: setting.template?.trim() || undefined,
+                defaultBase: setting.defaultBase?.trim() || undefined,
+                allowedBases: allowedBases.length > 0 ? allowedBases : undefined
+            });
+        }
 
         return prefixes.length > 0 ? prefixes : this.getDefaultPrefixes();
     }
 
     /**
-     * 将 BranchPrefix 对象数组序列化为字符串数组
-     * 现在只是简单的字符串数组
+     * 将 BranchPrefix 对象数组序列化为配置项，没有额外规则的前缀保持字符串写法
      */
-    private serializeBranchPrefixes(prefixes: BranchPrefix[]): string[] {
-        return prefixes.map(p => p.prefix);
+    private serializeBranchPrefixes(prefixes: BranchPrefix[]): BranchPrefixSetting[] {
+        return prefixes.map(p => {
+            const hasRules = p.template || p.defaultBase || (p.allowedBases && p.allowedBases.length > 0);
+            if (!hasRules && p.description === p.prefix) {
+                return p.prefix;
+            }
+            return {
+                prefix: p.prefix,
+                ...(p.description !== p.prefix ? { description: p.description } : {}),
+                ...(p.template ? { template: p.template } : {}),
+                ...(p.defaultBase ? { defaultBase: p.defaultBase } : {}),
+                ...(p.allowedBases && p.allowedBases.length > 0 ? { allowedBases: p.allowedBases } : {})
+            };
+        });
     }
 
     /**
@@ -59,7 +158,7 @@ export class BranchConfigManager {
      */
     getConfiguration(): BranchConfigurationSchema {
         const config = vscode.workspace.getConfiguration(this.configurationSection);
-        const prefixStrings = config.get<string[]>('branchPrefixes');
+        const prefixStrings = config.get<BranchPrefixSetting[]>('branchPrefixes');
         const preset = config.get<string>('branchNameTemplatePreset') || 'default';
         const customFormat = config.get<string>('branchNameFormat') || this.defaultBranchNameFormat;
         
@@ -69,7 +168,11 @@ export class BranchConfigManager {
             dateFormat: (config.get<string>('dateFormat') || 'yyyyMMdd') as DateFormat,
             branchNameTemplatePreset: preset,
             branchNameFormat: this.getPresetFormat(preset, customFormat),
-            autoCheckout: config.get<boolean>('autoCheckout') ?? true
+            autoCheckout: config.get<boolean>('autoCheckout') ?? true,
+            ticketPattern: config.get<string>('ticketPattern') || this.defaultTicketPattern,
+            ticketDefaultProject: config.get<string>('ticketDefaultProject') || '',
+            descriptionSlug: this.parseDescriptionSlug(config.get<Partial<DescriptionSlugOptions>>('descriptionSlug')),
+            customPlaceholders: this.parseCustomPlaceholders(config.get<Record<string, CustomPlaceholderSetting>>('customPlaceholders'))
         };
     }
 
@@ -78,7 +181,7 @@ export class BranchConfigManager {
      */
     getWorkspaceConfiguration(): BranchConfigurationSchema {
         const config = vscode.workspace.getConfiguration(this.configurationSection);
-        const prefixInspect = config.inspect<string[]>('branchPrefixes');
+        const prefixInspect = config.inspect<BranchPrefixSetting[]>('branchPrefixes');
         const prefixStrings = prefixInspect?.workspaceValue ?? prefixInspect?.defaultValue;
         const preset = config.inspect<string>('branchNameTemplatePreset')?.workspaceValue
             ?? config.inspect<string>('branchNameTemplatePreset')?.defaultValue
@@ -93,7 +196,11 @@ export class BranchConfigManager {
             dateFormat: (config.inspect<string>('dateFormat')?.workspaceValue ?? config.inspect<string>('dateFormat')?.defaultValue ?? 'yyyyMMdd') as DateFormat,
             branchNameTemplatePreset: preset,
             branchNameFormat: this.getPresetFormat(preset, customFormat),
-            autoCheckout: config.inspect<boolean>('autoCheckout')?.workspaceValue ?? config.inspect<boolean>('autoCheckout')?.defaultValue ?? true
+            autoCheckout: config.inspect<boolean>('autoCheckout')?.workspaceValue ?? config.inspect<boolean>('autoCheckout')?.defaultValue ?? true,
+            ticketPattern: config.inspect<string>('ticketPattern')?.workspaceValue || config.inspect<string>('ticketPattern')?.defaultValue || this.defaultTicketPattern,
+            ticketDefaultProject: config.inspect<string>('ticketDefaultProject')?.workspaceValue ?? config.inspect<string>('ticketDefaultProject')?.defaultValue ?? '',
+            descriptionSlug: this.parseDescriptionSlug(config.inspect<Partial<DescriptionSlugOptions>>('descriptionSlug')?.workspaceValue ?? config.inspect<Partial<DescriptionSlugOptions>>('descriptionSlug')?.defaultValue),
+            customPlaceholders: this.parseCustomPlaceholders(config.inspect<Record<string, CustomPlaceholderSetting>>('customPlaceholders')?.workspaceValue ?? config.inspect<Record<string, CustomPlaceholderSetting>>('customPlaceholders')?.defaultValue)
         };
     }
 
@@ -102,7 +209,7 @@ export class BranchConfigManager {
      */
     getGlobalConfiguration(): BranchConfigurationSchema {
         const config = vscode.workspace.getConfiguration(this.configurationSection);
-        const prefixInspect = config.inspect<string[]>('branchPrefixes');
+        const prefixInspect = config.inspect<BranchPrefixSetting[]>('branchPrefixes');
         const prefixStrings = prefixInspect?.globalValue ?? prefixInspect?.defaultValue;
         const preset = config.inspect<string>('branchNameTemplatePreset')?.globalValue
             ?? config.inspect<string>('branchNameTemplatePreset')?.defaultValue
@@ -117,7 +224,11 @@ export class BranchConfigManager {
             dateFormat: (config.inspect<string>('dateFormat')?.globalValue ?? config.inspect<string>('dateFormat')?.defaultValue ?? 'yyyyMMdd') as DateFormat,
             branchNameTemplatePreset: preset,
             branchNameFormat: this.getPresetFormat(preset, customFormat),
-            autoCheckout: config.inspect<boolean>('autoCheckout')?.globalValue ?? config.inspect<boolean>('autoCheckout')?.defaultValue ?? true
+            autoCheckout: config.inspect<boolean>('autoCheckout')?.globalValue ?? config.inspect<boolean>('autoCheckout')?.defaultValue ?? true,
+            ticketPattern: config.inspect<string>('ticketPattern')?.globalValue || config.inspect<string>('ticketPattern')?.defaultValue || this.defaultTicketPattern,
+            ticketDefaultProject: config.inspect<string>('ticketDefaultProject')?.globalValue ?? config.inspect<string>('ticketDefaultProject')?.defaultValue ?? '',
+            descriptionSlug: this.parseDescriptionSlug(config.inspect<Partial<DescriptionSlugOptions>>('descriptionSlug')?.globalValue ?? config.inspect<Partial<DescriptionSlugOptions>>('descriptionSlug')?.defaultValue),
+            customPlaceholders: this.parseCustomPlaceholders(config.inspect<Record<string, CustomPlaceholderSetting>>('customPlaceholders')?.globalValue ?? config.inspect<Record<string, CustomPlaceholderSetting>>('customPlaceholders')?.defaultValue)
         };
     }
 
@@ -139,6 +250,22 @@ export class BranchConfigManager {
         return config.branchPrefixes;
     }
 
+    /**
+     * 获取前缀对应的分支命名模板，前缀未单独配置模板时使用全局模板
+     */
+    getBranchNameFormat(prefix?: BranchPrefix): string {
+        return prefix?.template || this.getConfiguration().branchNameFormat;
+    }
+
+    /**
+     * 按分支名找到对应的前缀配置（分支名以 "前缀/" 开头）
+     */
+    findPrefixForBranch(branchName: string): BranchPrefix | undefined {
+        return this.getBranchPrefixes().find(p =>
+            branchName.toLowerCase().startsWith(p.prefix.toLowerCase() + '/')
+        );
+    }
+
     /**
      * 获取默认分支前缀（返回第一个）
      */
@@ -205,6 +332,10 @@ export class BranchConfigManager {
         await config.update('branchNameTemplatePreset', 'default', target);
         await config.update('branchNameFormat', this.defaultBranchNameFormat, target);
         await config.update('autoCheckout', true, target);
+        await config.update('ticketPattern', this.defaultTicketPattern, target);
+        await config.update('ticketDefaultProject', '', target);
+        await config.update('descriptionSlug', { ...this.defaultDescriptionSlug }, target);
+        await config.update('customPlaceholders', {}, target);
     }
 
 }
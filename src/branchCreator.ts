@@ -4,20 +4,24 @@ import {
   BranchCreationOptions,
   BranchCreationResult,
   BranchPrefix,
+  CustomPlaceholder,
   DateFormat,
   GitBranch,
 } from "./branchTypes";
 import { BranchUtils } from "./branchUtils";
 import { GitOperations } from "./gitOperations";
 import { AppError, isUserCancelledError } from "./errors";
+import { RemoteConfigManager } from "./remoteConfigManager";
 
 export class BranchCreator {
   private configManager: BranchConfigManager;
   private gitOps: GitOperations;
+  private remoteConfigManager: RemoteConfigManager;
 
   constructor(configManager: BranchConfigManager, workspaceRoot: string) {
     this.configManager = configManager;
     this.gitOps = new GitOperations(workspaceRoot);
+    this.remoteConfigManager = new RemoteConfigManager(workspaceRoot);
   }
 
   /**
@@ -112,7 +116,10 @@ export class BranchCreator {
     if (localExists) {
       return true;
     }
-    return await this.gitOps.checkRemoteBranchExists(branchName);
+    return await this.gitOps.checkRemoteBranchExists(
+      branchName,
+      this.remoteConfigManager.getFeatureRemote()
+    );
   }
 
   /**
@@ -127,7 +134,8 @@ export class BranchCreator {
    */
   private async createAndCheckoutBranch(
     branchName: string,
-    baseBranch: string
+    baseBranch: string,
+    ticket?: string
   ): Promise<void> {
     const config = this.configManager.getConfiguration();
     const isRemoteBaseBranch = this.isRemoteBranch(baseBranch);
@@ -151,6 +159,31 @@ export class BranchCreator {
     } catch (error) {
       throw new Error(`创建分支失败: ${error}`);
     }
+
+    await this.recordBranchMetadata(branchName, baseBranch, ticket);
+  }
+
+  /**
+   * 记录功能分支的基础分支（去掉远程前缀）与工单号，供同步基础分支和合并提交信息使用
+   */
+  private async recordBranchMetadata(
+    branchName: string,
+    baseBranch: string,
+    ticket?: string
+  ): Promise<void> {
+    try {
+      const remotes = await this.gitOps.getRemotes();
+      const remote = remotes.find((name) => baseBranch.startsWith(`${name}/`));
+      await this.gitOps.recordBaseBranch(
+        branchName,
+        remote ? baseBranch.substring(remote.length + 1) : baseBranch
+      );
+      if (ticket) {
+        await this.gitOps.recordTicket(branchName, ticket);
+      }
+    } catch (error) {
+      console.warn(`记录 ${branchName} 的分支信息失败:`, error);
+    }
   }
 
   /**
@@ -178,8 +211,12 @@ export class BranchCreator {
     // 创建选择项
     const items = prefixes.map((prefix) => ({
       label: prefix.prefix,
-      description: "",
-      detail: "",
+      description: prefix.description !== prefix.prefix ? prefix.description : "",
+      detail: [
+        ...(prefix.defaultBase ? [`默认基分支: ${prefix.defaultBase}`] : []),
+        ...(prefix.allowedBases ? [`允许的基分支: ${prefix.allowedBases.join(", ")}`] : []),
+        ...(prefix.template ? [`模板: ${prefix.template}`] : []),
+      ].join(" · "),
       prefix: prefix,
     }));
 
@@ -192,17 +229,49 @@ export class BranchCreator {
   }
 
   /**
-   * 选择基分支
+   * 去掉远程分支名中的远程前缀，便于与前缀配置中的基分支比较
    */
-  private async selectBaseBranch(): Promise<string | undefined> {
-    const branches = await this.getAllBranches();
+  private stripRemote(branch: GitBranch, remotes: string[]): string {
+    if (!branch.isRemote) {
+      return branch.name;
+    }
+    const remote = remotes.find((name) => branch.name.startsWith(`${name}/`));
+    return remote ? branch.name.substring(remote.length + 1) : branch.name;
+  }
+
+  /**
+   * 选择基分支：按前缀配置限制可选范围，并将默认基分支排在最前
+   */
+  private async selectBaseBranch(prefix: BranchPrefix): Promise<string | undefined> {
+    const remotes = prefix.defaultBase || prefix.allowedBases
+      ? await this.gitOps.getRemotes().catch(() => [] as string[])
+      : [];
+    let branches = await this.getAllBranches();
+
+    if (prefix.allowedBases) {
+      const allowed = prefix.allowedBases;
+      branches = branches.filter((branch) => allowed.includes(this.stripRemote(branch, remotes)));
+      if (branches.length === 0) {
+        throw new AppError(
+          `前缀 ${prefix.prefix} 只允许基于 ${allowed.join(", ")} 创建，但本地和远程都没有这些分支`,
+          "UNKNOWN",
+          { stage: "selectBaseBranch" }
+        );
+      }
+    }
 
     if (branches.length === 0) {
       throw new Error("没有可用的分支");
     }
 
-    // 按本地分支优先排序
+    const isDefaultBase = (branch: GitBranch) =>
+      !!prefix.defaultBase && this.stripRemote(branch, remotes) === prefix.defaultBase;
+
+    // 默认基分支优先，其次当前分支，再按本地分支优先排序
     const sortedBranches = branches.sort((a, b) => {
+      if (isDefaultBase(a) !== isDefaultBase(b)) {
+        return isDefaultBase(a) ? -1 : 1;
+      }
       if (a.current) {
         return -1;
       }
@@ -222,12 +291,17 @@ export class BranchCreator {
     const items = sortedBranches.map((branch) => ({
       label: branch.name,
       description: branch.isRemote ? "远程分支" : "本地分支",
-      detail: branch.current ? "当前分支" : "",
+      detail: [
+        ...(isDefaultBase(branch) ? [`${prefix.prefix} 的默认基分支`] : []),
+        ...(branch.current ? ["当前分支"] : []),
+      ].join(" · "),
       branchName: branch.name,
     }));
 
     const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: "选择基分支",
+      placeHolder: prefix.allowedBases
+        ? `选择基分支（${prefix.prefix} 只允许基于 ${prefix.allowedBases.join(", ")} 创建）`
+        : "选择基分支",
       matchOnDescription: true,
     });
 
@@ -239,16 +313,20 @@ export class BranchCreator {
    */
   private async inputBranchDescription(
     prefix: string,
-    username: string
+    username: string,
+    format: string,
+    placeholders: Record<string, string>
   ): Promise<string | undefined> {
     const config = this.configManager.getConfiguration();
     const currentDate = BranchUtils.formatDate(
       new Date(),
       config.dateFormat as DateFormat
     );
+    // 模板不含 {description} 时（如 {prefix}/{ticket}），只输入工单号即可
+    const requiresDescription = BranchUtils.hasPlaceholder(format, "description");
 
     const description = await vscode.window.showInputBox({
-      prompt: "输入分支描述信息",
+      prompt: requiresDescription ? "输入分支描述信息" : "输入工单号，可附带描述信息",
       placeHolder: "例如：用户登录功能",
       validateInput: async (value) => {
         if (!value) {
@@ -260,13 +338,28 @@ export class BranchCreator {
           return validation.error;
         }
 
+        // 模板包含工单号时，描述中输入的工单号会被提取出来
+        const extracted = BranchUtils.hasPlaceholder(format, "ticket")
+          ? BranchUtils.extractTicket(value, config.ticketPattern, config.ticketDefaultProject)
+          : undefined;
+        if (extracted && extracted.rest.length === 0 && requiresDescription) {
+          return "除工单号外还需输入描述信息";
+        }
+
+        const slug = BranchUtils.slugifyDescription(extracted?.rest ?? value, config.descriptionSlug);
+        if (slug.length === 0 && requiresDescription) {
+          return "描述信息转换后为空，请输入文字、字母或数字";
+        }
+
         // 实时预览分支名称
         const previewName = BranchUtils.generateBranchName({
           prefix,
-          description: value,
+          description: slug,
           username,
           date: currentDate,
-          format: config.branchNameFormat,
+          ticket: extracted?.ticket,
+          placeholders,
+          format,
         });
 
         const branchValidation = await this.gitOps.validateBranchNameWithGit(previewName);
@@ -274,29 +367,152 @@ export class BranchCreator {
           return branchValidation.error;
         }
 
-        return null;
+        return {
+          message: `分支名预览：${previewName}`,
+          severity: vscode.InputBoxValidationSeverity.Info,
+        };
       },
     });
 
     return description;
   }
 
+  /**
+   * 按模板中的出现顺序提示输入自定义占位符，取消时返回 undefined
+   */
+  private async inputCustomPlaceholders(
+    format: string
+  ): Promise<Record<string, string> | undefined> {
+    const config = this.configManager.getConfiguration();
+    const values: Record<string, string> = {};
+
+    for (const name of BranchUtils.getPlaceholders(format)) {
+      const placeholder = config.customPlaceholders.find((item) => item.name === name);
+      if (!placeholder) {
+        continue;
+      }
+
+      const value = placeholder.options
+        ? await this.pickPlaceholderOption(placeholder)
+        : await this.inputPlaceholderValue(placeholder);
+      if (value === undefined) {
+        return undefined;
+      }
+      values[name] = value;
+    }
+
+    return values;
+  }
+
+  /**
+   * 从可选值列表中选择自定义占位符的取值
+   */
+  private async pickPlaceholderOption(placeholder: CustomPlaceholder): Promise<string | undefined> {
+    return await vscode.window.showQuickPick(placeholder.options ?? [], {
+      title: `{${placeholder.name}}`,
+      placeHolder: `选择${placeholder.description}`,
+      ignoreFocusOut: true,
+    });
+  }
+
+  /**
+   * 输入自定义占位符的取值，配置了正则时需完整匹配
+   */
+  private async inputPlaceholderValue(placeholder: CustomPlaceholder): Promise<string | undefined> {
+    let regex: RegExp | undefined;
+    if (placeholder.pattern) {
+      try {
+        regex = new RegExp(`^(?:${placeholder.pattern})$`);
+      } catch {
+        throw new AppError(
+          `占位符 {${placeholder.name}} 的正则配置无效: ${placeholder.pattern}`,
+          "UNKNOWN",
+          { stage: "inputPlaceholderValue" }
+        );
+      }
+    }
+
+    const value = await vscode.window.showInputBox({
+      title: `{${placeholder.name}}`,
+      prompt: `输入${placeholder.description}`,
+      ignoreFocusOut: true,
+      validateInput: async (input) => {
+        const trimmed = input.trim();
+        if (!trimmed) {
+          return `${placeholder.description}不能为空`;
+        }
+        if (regex && !regex.test(trimmed)) {
+          return `格式不正确，需匹配 ${placeholder.pattern}`;
+        }
+        const validation = await this.gitOps.validateBranchNameWithGit(trimmed);
+        return validation.isValid ? null : validation.error;
+      },
+    });
+
+    return value === undefined ? undefined : value.trim();
+  }
+
+  /**
+   * 模板包含 {ticket} 时确定工单号：优先从描述中提取，否则提示输入
+   */
+  private async resolveTicket(
+    description: string,
+    format: string
+  ): Promise<{ ticket?: string; description: string } | undefined> {
+    const config = this.configManager.getConfiguration();
+    if (!BranchUtils.hasPlaceholder(format, "ticket")) {
+      return { description };
+    }
+
+    const extracted = BranchUtils.extractTicket(description, config.ticketPattern, config.ticketDefaultProject);
+    if (extracted && (extracted.rest.length > 0 || !BranchUtils.hasPlaceholder(format, "description"))) {
+      return { ticket: extracted.ticket, description: extracted.rest };
+    }
+
+    const ticket = await this.inputTicket();
+    return ticket ? { ticket, description } : undefined;
+  }
+
+  /**
+   * 输入工单号，只输入数字时自动补全默认项目键
+   */
+  private async inputTicket(): Promise<string | undefined> {
+    const config = this.configManager.getConfiguration();
+    const defaultProject = config.ticketDefaultProject.trim().toUpperCase();
+
+    const value = await vscode.window.showInputBox({
+      prompt: defaultProject
+        ? `输入工单号（只输入数字时自动补全为 ${defaultProject}-数字）`
+        : "输入工单号",
+      placeHolder: `例如：${defaultProject || "PROJ"}-123`,
+      validateInput: (input) => {
+        const ticket = BranchUtils.normalizeTicket(input, defaultProject);
+        const validation = BranchUtils.validateTicket(ticket, config.ticketPattern);
+        return validation.isValid ? null : validation.error;
+      },
+    });
+
+    return value === undefined ? undefined : BranchUtils.normalizeTicket(value, defaultProject);
+  }
+
   /**
    * 确认创建分支
    */
   private async confirmBranchCreation(
-    options: BranchCreationOptions
+    options: BranchCreationOptions,
+    format: string
   ): Promise<boolean> {
-    const config = this.configManager.getConfiguration();
     const branchName = BranchUtils.generateBranchName({
       ...options,
-      format: config.branchNameFormat,
+      format,
     });
 
     const items = [
       `基分支: ${options.baseBranch}`,
       `新分支: ${branchName}`,
-      `描述: ${options.description}`,
+      ...(options.ticket ? [`工单: ${options.ticket}`] : []),
+      ...Object.entries(options.placeholders ?? {}).map(([name, value]) => `${name}: ${value}`),
+      ...(options.description ? [`描述: ${options.description}`] : []),
       `创建者: ${options.username}`,
     ];
 
@@ -327,8 +543,20 @@ export class BranchCreator {
         return { success: false, error: "未选择分支前缀" };
       }
 
+      // 前缀配置了模板时使用前缀模板
+      const format = this.configManager.getBranchNameFormat(selectedPrefix);
+      const templateValidation = BranchUtils.validateTemplate(
+        format,
+        this.configManager.getConfiguration().customPlaceholders.map((item) => item.name)
+      );
+      if (!templateValidation.isValid) {
+        throw new AppError(templateValidation.error || "分支命名模板无效", "UNKNOWN", {
+          stage: "createBranch",
+        });
+      }
+
       // 步骤2: 选择基分支
-      const baseBranch = await this.selectBaseBranch();
+      const baseBranch = await this.selectBaseBranch(selectedPrefix);
       if (!baseBranch) {
         return { success: false, error: "未选择基分支" };
       }
@@ -336,17 +564,33 @@ export class BranchCreator {
       // 步骤3: 获取用户名
       const username = await this.getGitUsername();
 
+      // 步骤3.1: 按模板顺序输入自定义占位符
+      const placeholders = await this.inputCustomPlaceholders(format);
+      if (!placeholders) {
+        return { success: false, error: "未输入自定义占位符" };
+      }
+
       // 步骤4: 输入描述信息
-      const description = await this.inputBranchDescription(
+      const rawDescription = await this.inputBranchDescription(
         selectedPrefix.prefix,
-        username
+        username,
+        format,
+        placeholders
       );
-      if (!description) {
+      if (!rawDescription) {
         return { success: false, error: "未输入描述信息" };
       }
 
+      // 步骤4.1: 确定工单号（模板包含 {ticket} 时）
+      const ticketResult = await this.resolveTicket(rawDescription, format);
+      if (!ticketResult) {
+        return { success: false, error: "未输入工单号" };
+      }
+      const { ticket } = ticketResult;
+
       // 步骤5: 生成分支名称
       const config = this.configManager.getConfiguration();
+      const description = BranchUtils.slugifyDescription(ticketResult.description, config.descriptionSlug);
       const currentDate = BranchUtils.formatDate(
         new Date(),
         config.dateFormat as DateFormat
@@ -358,11 +602,13 @@ export class BranchCreator {
         description,
         username,
         date: currentDate,
+        ticket,
+        placeholders,
       };
 
       const configuredBranchName = BranchUtils.generateBranchName({
         ...branchCreationOptions,
-        format: config.branchNameFormat,
+        format,
       });
       const branchValidation = await this.gitOps.validateBranchNameWithGit(configuredBranchName);
       if (!branchValidation.isValid) {
@@ -392,13 +638,13 @@ export class BranchCreator {
       }
 
       // 步骤7: 确认创建
-      const confirmed = await this.confirmBranchCreation(branchCreationOptions);
+      const confirmed = await this.confirmBranchCreation(branchCreationOptions, format);
       if (!confirmed) {
         return { success: false, error: "用户取消创建" };
       }
 
       // 步骤8: 创建分支
-      await this.createAndCheckoutBranch(configuredBranchName, baseBranch);
+      await this.createAndCheckoutBranch(configuredBranchName, baseBranch, ticket);
 
       return { success: true, branchName: configuredBranchName };
     } catch (error) {
@@ -1,10 +1,48 @@
 import * as vscode from "vscode";
-import { AppError } from "./errors";
+import { AppError, isOperationCancelledError } from "./errors";
 import { GitOperations } from "./gitOperations";
 import { BranchUtils } from "./branchUtils";
+import {
+  AutoResolvedConflict,
+  MergeConflictContext,
+  MergeConflictPrediction,
+  MergeStrategy,
+  SafeMergeResult,
+  SyncStrategy,
+} from "./mergeTypes";
 
 export type MergeConflictResolution = "resolved" | "aborted" | "pending";
 
+export interface SafeMergeHandlers {
+  /** 交互处理前按规则自动解决冲突，返回已自动解决的文件 */
+  autoResolveConflicts?: () => Promise<AutoResolvedConflict[]>;
+  /** 实际合并出现冲突时的处理回调 */
+  onConflict: (
+    conflictFiles: string[],
+    context: MergeConflictContext
+  ) => Promise<MergeConflictResolution>;
+  /** 预测到冲突时的确认回调，返回 false 表示取消本次合并 */
+  onPredictedConflicts?: (prediction: MergeConflictPrediction) => Promise<boolean>;
+  /** squash 合并时获取提交信息，返回 undefined 表示取消 */
+  requestSquashMessage?: (
+    sourceBranch: string,
+    targetBranch: string
+  ) => Promise<string | undefined>;
+  /** 推送前校验合并结果，校验失败时应抛出错误 */
+  verifyMergeResult?: (
+    targetBranch: string,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ) => Promise<void>;
+}
+
+export interface SafeMergeOptions {
+  strategy?: MergeStrategy;
+  /** 推送因远程有新提交被拒绝时的重试次数 */
+  pushRetries?: number;
+  /** 目标分支所在的远程，默认 origin */
+  remote?: string;
+}
+
 /**
  * 分支管理类 - 负责分支相关操作和验证
  */
@@ -39,28 +77,38 @@ export class BranchManager {
   }
 
   /**
-   * 安全合并分支（带冲突处理）
+   * 安全合并分支（带冲突处理），返回合并前后目标分支的提交哈希
    */
   async safeMergeBranch(
     targetBranch: string,
     sourceBranch: string,
-    conflictHandler: (conflictFiles: string[]) => Promise<MergeConflictResolution>,
-    progress?: vscode.Progress<{ message?: string; increment?: number }>
-  ): Promise<void> {
+    handlers: SafeMergeHandlers,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    options: SafeMergeOptions = {}
+  ): Promise<SafeMergeResult> {
+    const strategy = options.strategy ?? "ff";
+    const pushRetries = Math.max(0, Math.floor(options.pushRetries ?? 0));
+    const remote = options.remote ?? "origin";
+    let preMergeSha: string | undefined;
+    let pushed = false;
+
     try {
       try {
-        await this.gitOps.fetchRemote("origin");
+        await this.gitOps.fetchRemote(remote);
       } catch (error) {
+        if (isOperationCancelledError(error)) {
+          throw error;
+        }
         vscode.window.showWarningMessage(
           "获取远程分支信息失败，将基于本地缓存继续执行，结果可能不是最新状态"
         );
       }
 
       if (progress) {
-        progress.report({ message: `检查远程分支 ${targetBranch}...`, increment: 5 });
+        progress.report({ message: `检查远程分支 ${remote}/${targetBranch}...`, increment: 5 });
       }
       
-      const remoteExists = await this.gitOps.checkRemoteBranchExists(targetBranch);
+      const remoteExists = await this.gitOps.checkRemoteBranchExists(targetBranch, remote);
       const localExists = await this.gitOps.checkLocalBranchExists(targetBranch);
 
       if (!remoteExists && !localExists) {
@@ -71,85 +119,414 @@ export class BranchManager {
         );
       }
       
+      const remoteRef = `${remote}/${targetBranch}`;
+      const targetRef = remoteExists && (await this.gitOps.refExists(remoteRef)) ? remoteRef : targetBranch;
+
+      // 目标分支已包含功能分支的所有提交时，无需切换、拉取、合并与推送
+      if (await this.gitOps.refExists(targetRef)) {
+        if (await this.gitOps.isAncestor(sourceBranch, targetRef)) {
+          const targetSha = await this.gitOps.getCommitSha(targetRef);
+          return { commitSha: targetSha, baseSha: targetSha, alreadyMerged: true };
+        }
+        if (progress) {
+          const missingCount = await this.gitOps.countCommits(`${targetRef}..${sourceBranch}`);
+          progress.report({ message: `${targetBranch} 缺少 ${sourceBranch} 的 ${missingCount} 个提交`, increment: 0 });
+        }
+      }
+
+      if (handlers.onPredictedConflicts) {
+        if (progress) {
+          progress.report({ message: `预测 ${sourceBranch} 合并到 ${targetBranch} 的冲突...`, increment: 0 });
+        }
+        const prediction = await this.gitOps.predictMergeConflicts(sourceBranch, targetRef);
+        if (prediction.supported && prediction.hasConflicts) {
+          const shouldContinue = await handlers.onPredictedConflicts(prediction);
+          if (!shouldContinue) {
+            throw AppError.userCancelled(`已取消合并到 ${targetBranch}（预测存在冲突）`);
+          }
+        }
+      }
+
+      // squash 合并需要独立的提交信息，在改动工作区之前获取
+      let commitMessage: string | undefined;
+      if (strategy === "squash") {
+        commitMessage = handlers.requestSquashMessage
+          ? await handlers.requestSquashMessage(sourceBranch, targetBranch)
+          : `chore: 合并 ${sourceBranch} 到 ${targetBranch}`;
+        if (!commitMessage) {
+          throw AppError.userCancelled(`未输入 squash 提交信息，已取消合并到 ${targetBranch}`);
+        }
+      }
+      const conflictContext: MergeConflictContext = {
+        strategy,
+        sourceBranch,
+        targetBranch,
+        commitMessage,
+      };
+
       if (progress) {
         progress.report({ message: `切换到目标分支 ${targetBranch}...`, increment: 10 });
       }
       
       // 安全切换分支（如果本地不存在会从远程创建）
-      await this.gitOps.checkoutBranch(targetBranch);
+      await this.gitOps.checkoutBranch(targetBranch, undefined, remote);
       
       // 如果远程分支存在，确保上游关联并拉取最新代码
       if (remoteExists) {
         if (progress) {
           progress.report({ message: `设置上游分支关联...`, increment: 5 });
         }
-        await this.gitOps.ensureBranchUpstream(targetBranch);
+        await this.gitOps.ensureBranchUpstream(targetBranch, remote);
         
         if (progress) {
           progress.report({ message: `拉取最新代码...`, increment: 10 });
         }
-        await this.gitOps.pullBranch(targetBranch);
+        await this.gitOps.pullBranch(targetBranch, remote);
       }
+      preMergeSha = await this.gitOps.getCommitSha();
 
       if (progress) {
-        progress.report({ message: `合并 ${sourceBranch} 到 ${targetBranch}...`, increment: 30 });
+        progress.report({ message: `合并 ${sourceBranch} 到 ${targetBranch}（${strategy}）...`, increment: 30 });
       }
       
-      try {
-        await this.gitOps.mergeBranch(sourceBranch);
-      } catch (mergeError) {
-        const hasConflicts = await this.gitOps.checkMergeConflicts();
-        if (hasConflicts) {
-          if (progress) {
-            progress.report({ message: `检测到合并冲突，等待处理...`, increment: 0 });
+      if (strategy === "rebase") {
+        await this.rebaseAndFastForward(targetBranch, sourceBranch, handlers, conflictContext, progress);
+      } else {
+        try {
+          await this.gitOps.mergeBranch(sourceBranch, strategy);
+        } catch (mergeError) {
+          const hasConflicts = await this.gitOps.checkMergeConflicts();
+          if (hasConflicts) {
+            await this.resolveConflicts(handlers, conflictContext, progress);
+          } else {
+            throw mergeError;
           }
-          const conflictFiles = await this.gitOps.getConflictFiles();
-          const resolution = await conflictHandler(conflictFiles);
-          if (resolution === "aborted") {
-            throw AppError.userCancelled("用户中止了合并流程");
+        }
+
+        // squash 合并不会自动提交，冲突处理未提交时在此补充提交
+        if (commitMessage && strategy === "squash" && (await this.gitOps.checkStagedChanges())) {
+          await this.gitOps.commitStagedChanges(commitMessage);
+        }
+      }
+
+      await this.verifyBeforePush(targetBranch, preMergeSha, handlers, progress);
+
+      if (progress) {
+        progress.report({ message: `推送合并结果到远程...`, increment: 20 });
+      }
+      
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await this.gitOps.pushBranch(targetBranch, !remoteExists, remote);
+          pushed = true;
+          break;
+        } catch (pushError) {
+          const rejected = pushError instanceof AppError && pushError.code === "PUSH_REJECTED";
+          if (!rejected || attempt >= pushRetries) {
+            throw pushError;
           }
-          if (resolution === "pending") {
-            throw new AppError("冲突尚未解决，合并未完成", "UNKNOWN", {
-              stage: "safeMergeBranch",
+          if (progress) {
+            progress.report({
+              message: `远程 ${targetBranch} 已有新提交，重新合并后重试推送（${attempt + 1}/${pushRetries}）...`,
+              increment: 0,
             });
           }
-        } else {
-          throw mergeError;
+          await this.integrateRemoteTip(targetBranch, remote, strategy, handlers, progress);
+          await this.verifyBeforePush(targetBranch, preMergeSha, handlers, progress);
         }
       }
 
+      return { commitSha: await this.gitOps.getCommitSha(), baseSha: preMergeSha };
+    } catch (error) {
+      if (isOperationCancelledError(error) || this.gitOps.getCancellationToken()?.isCancellationRequested) {
+        await this.rollbackCancelledMerge(targetBranch, preMergeSha, pushed);
+        throw isOperationCancelledError(error)
+          ? error
+          : AppError.operationCancelled(`已取消合并到 ${targetBranch}`, "safeMergeBranch");
+      }
+      console.error(`合并到 ${targetBranch} 失败:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 将基础分支的最新提交同步到当前功能分支（合并或变基）并推送，返回同步进来的提交数量
+   */
+  async syncBranchWithBase(
+    featureBranch: string,
+    baseRef: string,
+    strategy: SyncStrategy,
+    handlers: Pick<SafeMergeHandlers, "autoResolveConflicts" | "onConflict">,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    remote: string = "origin"
+  ): Promise<number> {
+    const integratedCount = await this.gitOps.countCommits(`${featureBranch}..${baseRef}`);
+    if (integratedCount === 0) {
+      return 0;
+    }
+
+    const preSyncSha = await this.gitOps.getCommitSha();
+    const conflictContext: MergeConflictContext = {
+      strategy: strategy === "rebase" ? "rebase" : "no-ff",
+      sourceBranch: baseRef,
+      targetBranch: featureBranch,
+      commitMessage: strategy === "rebase" ? undefined : `chore: 合并 ${baseRef} 到 ${featureBranch}`,
+    };
+
+    try {
       if (progress) {
-        progress.report({ message: `推送合并结果到远程...`, increment: 20 });
+        progress.report({
+          message: `${strategy === "rebase" ? "变基" : "合并"} ${baseRef} 的 ${integratedCount} 个提交到 ${featureBranch}...`,
+          increment: 30,
+        });
       }
-      
-      if (remoteExists) {
-        await this.gitOps.pushBranch(targetBranch);
+
+      if (strategy === "rebase") {
+        await this.rebaseWithConflictHandling(baseRef, handlers, conflictContext, progress);
       } else {
-        await this.gitOps.pushBranch(targetBranch, true);
+        try {
+          await this.gitOps.mergeBranch(baseRef, "ff");
+        } catch (mergeError) {
+          if (!(await this.gitOps.checkMergeConflicts())) {
+            throw mergeError;
+          }
+          await this.resolveConflicts(handlers, conflictContext, progress);
+        }
       }
     } catch (error) {
-      console.error(`合并到 ${targetBranch} 失败:`, error);
+      if (isOperationCancelledError(error) || this.gitOps.getCancellationToken()?.isCancellationRequested) {
+        await this.rollbackCancelledMerge(featureBranch, preSyncSha, false);
+        throw isOperationCancelledError(error)
+          ? error
+          : AppError.operationCancelled(`已取消同步 ${featureBranch}`, "syncBranchWithBase");
+      }
       throw error;
     }
+
+    if (progress) {
+      progress.report({ message: `推送 ${featureBranch} 到 ${remote}...`, increment: 20 });
+    }
+    // 变基改写了已推送的提交，使用 --force-with-lease 避免覆盖他人推送的新提交
+    await this.gitOps.pushBranch(featureBranch, false, remote, strategy === "rebase");
+
+    return integratedCount;
+  }
+
+  /**
+   * 取消后按当前阶段回滚：中止进行中的合并/变基，未推送时将目标分支重置到合并前的提交
+   */
+  private async rollbackCancelledMerge(
+    targetBranch: string,
+    preMergeSha: string | undefined,
+    pushed: boolean
+  ): Promise<void> {
+    // 回滚命令不能再被已取消的令牌终止
+    this.gitOps.setCancellationToken(undefined);
+
+    try {
+      if (
+        (await this.gitOps.isMergeInProgress()) ||
+        (await this.gitOps.isRebaseInProgress()) ||
+        (await this.gitOps.checkMergeConflicts())
+      ) {
+        await this.gitOps.abortMerge();
+      }
+
+      if (preMergeSha && !pushed) {
+        // rebase 策略中止后停留在分离头指针上，需先切回目标分支
+        if ((await this.gitOps.getCurrentBranch()) !== targetBranch) {
+          await this.gitOps.checkoutBranch(targetBranch);
+        }
+        await this.gitOps.resetHard(preMergeSha);
+      }
+    } catch (rollbackError) {
+      console.error(`回滚 ${targetBranch} 的合并失败:`, rollbackError);
+      vscode.window.showWarningMessage(
+        `回滚 ${targetBranch} 失败，请手动检查该分支状态${preMergeSha ? `（合并前提交 ${preMergeSha.substring(0, 8)}）` : ""}`
+      );
+    }
+  }
+
+  /**
+   * 推送前执行合并结果校验，失败时将本地目标分支重置到合并前的状态
+   */
+  private async verifyBeforePush(
+    targetBranch: string,
+    preMergeSha: string,
+    handlers: SafeMergeHandlers,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<void> {
+    if (!handlers.verifyMergeResult) {
+      return;
+    }
+
+    try {
+      await handlers.verifyMergeResult(targetBranch, progress);
+    } catch (error) {
+      try {
+        if (await this.gitOps.isMergeInProgress()) {
+          await this.gitOps.abortMerge();
+        }
+        await this.gitOps.resetHard(preMergeSha);
+      } catch (resetError) {
+        console.error(`重置 ${targetBranch} 到合并前状态失败:`, resetError);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 将功能分支的提交以分离头指针方式变基到目标分支，再快进目标分支（不改写功能分支）
+   */
+  private async rebaseAndFastForward(
+    targetBranch: string,
+    sourceBranch: string,
+    handlers: SafeMergeHandlers,
+    conflictContext: MergeConflictContext,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<void> {
+    await this.gitOps.checkoutDetached(sourceBranch);
+
+    await this.rebaseWithConflictHandling(targetBranch, handlers, conflictContext, progress);
+
+    const rebasedHead = await this.gitOps.getCommitSha();
+    await this.gitOps.checkoutBranch(targetBranch);
+    await this.gitOps.fastForwardTo(rebasedHead);
+  }
+
+  /**
+   * 将当前 HEAD 变基到指定上游，逐个处理变基过程中出现的冲突
+   */
+  private async rebaseWithConflictHandling(
+    upstream: string,
+    handlers: Pick<SafeMergeHandlers, "autoResolveConflicts" | "onConflict">,
+    conflictContext: MergeConflictContext,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<void> {
+    try {
+      await this.gitOps.rebaseOnto(upstream);
+    } catch (rebaseError) {
+      if (!(await this.gitOps.isRebaseInProgress())) {
+        throw rebaseError;
+      }
+
+      // 变基会逐个应用提交，每一步都可能产生新的冲突
+      while (await this.gitOps.isRebaseInProgress()) {
+        if (await this.gitOps.checkMergeConflicts()) {
+          await this.resolveConflicts(handlers, conflictContext, progress);
+        }
+        try {
+          await this.gitOps.continueRebase();
+        } catch (continueError) {
+          if (!(await this.gitOps.checkMergeConflicts())) {
+            throw continueError;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 推送被拒绝后，重新获取远程目标分支并将其最新提交合入本地合并结果
+   */
+  private async integrateRemoteTip(
+    targetBranch: string,
+    remote: string,
+    strategy: MergeStrategy,
+    handlers: SafeMergeHandlers,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<void> {
+    await this.gitOps.fetchRemote(remote);
+    const remoteRef = `${remote}/${targetBranch}`;
+    const conflictContext: MergeConflictContext = {
+      strategy: strategy === "rebase" ? "rebase" : "no-ff",
+      sourceBranch: remoteRef,
+      targetBranch,
+      commitMessage: strategy === "rebase" ? undefined : `chore: 合并 ${remoteRef} 到 ${targetBranch}`,
+    };
+
+    // rebase 策略保持线性历史：将尚未推送的提交变基到远程最新提交之上
+    if (strategy === "rebase") {
+      await this.rebaseWithConflictHandling(remoteRef, handlers, conflictContext, progress);
+      return;
+    }
+
+    try {
+      await this.gitOps.mergeBranch(remoteRef, "ff");
+    } catch (mergeError) {
+      if (!(await this.gitOps.checkMergeConflicts())) {
+        throw mergeError;
+      }
+      await this.resolveConflicts(handlers, conflictContext, progress);
+    }
+  }
+
+  /**
+   * 将当前冲突交给冲突处理回调，未解决或中止时抛出对应错误
+   */
+  private async resolveConflicts(
+    handlers: Pick<SafeMergeHandlers, "autoResolveConflicts" | "onConflict">,
+    conflictContext: MergeConflictContext,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<void> {
+    if (handlers.autoResolveConflicts) {
+      if (progress) {
+        progress.report({ message: `检测到合并冲突，按规则自动解决...`, increment: 0 });
+      }
+      const autoResolved = await handlers.autoResolveConflicts();
+      if (autoResolved.length > 0 && (await this.gitOps.getConflictFiles()).length === 0) {
+        // 变基由调用方继续；普通合并需在此完成合并提交，squash 由调用方统一提交
+        if (conflictContext.strategy !== "rebase" && (await this.gitOps.isMergeInProgress())) {
+          if (conflictContext.commitMessage) {
+            await this.gitOps.commitStagedChanges(conflictContext.commitMessage);
+          } else {
+            await this.gitOps.commitMerge();
+          }
+        }
+        return;
+      }
+    }
+
+    if (progress) {
+      progress.report({ message: `检测到合并冲突，等待处理...`, increment: 0 });
+    }
+    const conflictFiles = await this.gitOps.getConflictFiles();
+    const resolution = await handlers.onConflict(conflictFiles, conflictContext);
+    if (resolution === "aborted") {
+      throw new AppError("用户中止了合并流程", "MERGE_ABORTED", {
+        stage: "safeMergeBranch",
+      });
+    }
+    if (resolution === "pending") {
+      throw new AppError("冲突尚未解决，合并未完成", "MERGE_CONFLICT", {
+        stage: "safeMergeBranch",
+      });
+    }
+    // 回调报告已解决但合并仍未提交时，不能继续校验与推送合并前的目标分支
+    if (conflictContext.strategy !== "rebase" && (await this.gitOps.isMergeInProgress())) {
+      throw new AppError("冲突已解决但合并尚未提交，合并未完成", "MERGE_CONFLICT", {
+        stage: "safeMergeBranch",
+      });
+    }
   }
 
   /**
    * 确保远程分支存在并设置正确的上游关联
    */
-  async ensureRemoteBranchExists(branchName: string): Promise<void> {
+  async ensureRemoteBranchExists(branchName: string, remote: string = "origin"): Promise<void> {
     try {
-      await this.gitOps.fetchRemote("origin");
+      await this.gitOps.fetchRemote(remote);
     } catch {
       vscode.window.showWarningMessage(
         "获取远程分支信息失败，将尝试直接推送并建立上游关联"
       );
     }
 
-    const exists = await this.gitOps.checkRemoteBranchExists(branchName);
+    const exists = await this.gitOps.checkRemoteBranchExists(branchName, remote);
     if (exists) {
-      await this.gitOps.ensureBranchUpstream(branchName);
+      await this.gitOps.ensureBranchUpstream(branchName, remote);
     } else {
-      await this.gitOps.pushBranch(branchName, true);
+      await this.gitOps.pushBranch(branchName, true, remote);
     }
   }
 }
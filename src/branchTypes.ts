@@ -1,14 +1,34 @@
 export interface BranchPrefix {
     prefix: string;
     description: string;
+    /** 该前缀专用的分支命名模板，未设置时使用全局模板 */
+    template?: string;
+    /** 选择基分支时预选的分支 */
+    defaultBase?: string;
+    /** 允许作为基分支的分支名（不含远程名），设置后只能从中选择 */
+    allowedBases?: string[];
 }
 
+/**
+ * branchPrefixes 配置项：可以只写前缀字符串，也可以写带模板和基分支规则的对象
+ */
+export type BranchPrefixSetting = string | {
+    prefix: string;
+    description?: string;
+    template?: string;
+    defaultBase?: string;
+    allowedBases?: string[];
+};
+
 export interface BranchCreationOptions {
     prefix: string;
     baseBranch: string;
     description: string;
     username: string;
     date: string;
+    ticket?: string;
+    /** 自定义占位符的取值，键为占位符名称 */
+    placeholders?: Record<string, string>;
 }
 
 export interface GitBranch {
@@ -29,6 +49,39 @@ export interface BranchCreationResult {
     error?: string;
 }
 
+export interface DescriptionSlugOptions {
+    /** 是否将描述转换为适合分支名的形式 */
+    enabled: boolean;
+    /** 将汉字转换为拼音 */
+    pinyin: boolean;
+    /** 转为小写 */
+    lowercase: boolean;
+    /** 替换空白与标点的分隔符 */
+    separator: string;
+    /** 最大长度，0 表示不限制 */
+    maxLength: number;
+}
+
+export interface CustomPlaceholder {
+    /** 占位符名称，模板中写作 {name} */
+    name: string;
+    /** 提示输入时显示的说明 */
+    description: string;
+    /** 可选值列表，设置后通过下拉列表选择 */
+    options?: string[];
+    /** 自由输入时需完整匹配的正则 */
+    pattern?: string;
+}
+
+/**
+ * customPlaceholders 配置项中单个占位符的写法，名称作为对象的键
+ */
+export interface CustomPlaceholderSetting {
+    description?: string;
+    options?: string[];
+    pattern?: string;
+}
+
 export interface BranchConfigurationSchema {
     branchPrefixes: BranchPrefix[];
     customGitName: string;
@@ -36,6 +89,13 @@ export interface BranchConfigurationSchema {
     branchNameTemplatePreset: string;
     branchNameFormat: string;
     autoCheckout: boolean;
+    /** 工单号正则，用于 {ticket} 占位符的校验与提取 */
+    ticketPattern: string;
+    /** 只输入数字时补全的默认项目键 */
+    ticketDefaultProject: string;
+    descriptionSlug: DescriptionSlugOptions;
+    /** 用户自定义的模板占位符 */
+    customPlaceholders: CustomPlaceholder[];
 }
 
 export type DateFormat = 'yyyyMMdd' | 'yyyy-MM-dd' | 'yyMMdd';
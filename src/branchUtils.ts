@@ -1,6 +1,82 @@
-import { DateFormat, ValidationResult } from './branchTypes';
+import { DateFormat, DescriptionSlugOptions, ValidationResult } from './branchTypes';
+import { PINYIN_TABLE } from './pinyinTable';
+
+/** 模板内置占位符，由分支创建流程提供取值 */
+const BUILTIN_PLACEHOLDERS = ['prefix', 'date', 'description', 'username', 'ticket'];
+
+/** 模板占位符：{name} 或带修饰符的 {name|lower|kebab} */
+const TEMPLATE_TOKEN_PATTERN = /\{([A-Za-z][\w-]*)((?:\|[A-Za-z]+)*)\}/g;
+
+/** 模板修饰符，按书写顺序依次作用于占位符的取值 */
+const TEMPLATE_MODIFIERS: Record<string, (value: string) => string> = {
+    lower: value => value.toLowerCase(),
+    upper: value => value.toUpperCase(),
+    capitalize: value => value.charAt(0).toUpperCase() + value.slice(1),
+    trim: value => value.trim(),
+    kebab: value => value.split(/[\s_]+/).filter(Boolean).join('-'),
+    snake: value => value.split(/[\s-]+/).filter(Boolean).join('_')
+};
 
 export class BranchUtils {
+    private static pinyinMap: Map<string, string> | undefined;
+
+    /**
+     * 汉字到拼音的映射，首次使用时由拼音表构建
+     */
+    private static getPinyinMap(): Map<string, string> {
+        if (!BranchUtils.pinyinMap) {
+            BranchUtils.pinyinMap = new Map();
+            for (const [syllable, chars] of Object.entries(PINYIN_TABLE)) {
+                for (const char of chars) {
+                    BranchUtils.pinyinMap.set(char, syllable);
+                }
+            }
+        }
+        return BranchUtils.pinyinMap;
+    }
+
+    /**
+     * 将文本中的汉字转换为拼音（音节之间以空格分隔），不在拼音表中的字符保持不变
+     */
+    static toPinyin(text: string): string {
+        const pinyinMap = BranchUtils.getPinyinMap();
+        return Array.from(text)
+            .map(char => {
+                const syllable = pinyinMap.get(char);
+                return syllable ? ` ${syllable} ` : char;
+            })
+            .join('');
+    }
+
+    /**
+     * 将描述转换为适合分支名的形式：拼音转换、小写、空白与标点替换为分隔符、合并重复分隔符、截断长度
+     */
+    static slugifyDescription(description: string, options: DescriptionSlugOptions): string {
+        if (!options.enabled) {
+            return description.trim();
+        }
+
+        let slug = options.pinyin ? BranchUtils.toPinyin(description) : description;
+        if (options.lowercase) {
+            slug = slug.toLowerCase();
+        }
+
+        // 连续的空白与标点合并为一个分隔符，并去掉首尾的分隔符
+        const separator = options.separator;
+        const collapse = (value: string) =>
+            separator ? value.split(separator).filter(Boolean).join(separator) : value;
+        slug = collapse(slug.replace(/[^A-Za-z0-9\u4e00-\u9fff]+/g, separator));
+
+        if (options.maxLength > 0 && slug.length > options.maxLength) {
+            const truncated = slug.slice(0, options.maxLength);
+            // 尽量在分隔符处截断，避免截出半个单词
+            const lastSeparator = separator ? truncated.lastIndexOf(separator) : -1;
+            slug = collapse(lastSeparator > options.maxLength / 2 ? truncated.slice(0, lastSeparator) : truncated);
+        }
+
+        return slug;
+    }
+
     /**
      * 根据格式生成日期字符串
      */
@@ -78,6 +154,150 @@ export class BranchUtils {
         };
     }
 
+    /**
+     * 规范化工单号：去除空白并转为大写，只输入数字时补全默认项目键
+     */
+    static normalizeTicket(ticket: string, defaultProject?: string): string {
+        const value = ticket.trim().toUpperCase();
+        if (/^\d+$/.test(value) && defaultProject && defaultProject.trim().length > 0) {
+            return `${defaultProject.trim().toUpperCase()}-${value}`;
+        }
+        return value;
+    }
+
+    /**
+     * 校验工单号是否完整匹配配置的正则
+     */
+    static validateTicket(ticket: string, pattern: string): ValidationResult {
+        if (!ticket || ticket.trim().length === 0) {
+            return {
+                isValid: false,
+                error: '工单号不能为空'
+            };
+        }
+
+        let regex: RegExp;
+        try {
+            regex = new RegExp(`^(?:${pattern})$`);
+        } catch {
+            return {
+                isValid: false,
+                error: `工单号正则配置无效: ${pattern}`
+            };
+        }
+
+        if (!regex.test(ticket)) {
+            return {
+                isValid: false,
+                error: `工单号格式不正确，需匹配 ${pattern}`
+            };
+        }
+
+        return {
+            isValid: true
+        };
+    }
+
+    /**
+     * 从文本中提取工单号（区分大小写，避免把 utf-8 之类的普通单词当成工单号），返回工单号与去掉工单号后的剩余文本；
+     * 配置了默认项目键时，开头的纯数字（如 123、#123）会补全为 PROJ-123
+     */
+    static extractTicket(
+        text: string,
+        pattern: string,
+        defaultProject?: string
+    ): { ticket: string; rest: string } | undefined {
+        let match: RegExpExecArray | null;
+        try {
+            match = new RegExp(pattern).exec(text);
+        } catch {
+            return undefined;
+        }
+
+        let ticket = match?.[0];
+        if (!match && defaultProject && defaultProject.trim().length > 0) {
+            match = /^\s*#?(\d+)(?=[\s_\-:：/]|$)/.exec(text);
+            ticket = match ? BranchUtils.normalizeTicket(match[1], defaultProject) : undefined;
+        }
+        if (!match || !ticket || !BranchUtils.validateTicket(ticket, pattern).isValid) {
+            return undefined;
+        }
+
+        const rest = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`
+            .replace(/\s+/g, ' ')
+            .replace(/^[\s_\-:：/]+|[\s_\-:：/]+$/g, '');
+        return { ticket, rest };
+    }
+
+    /**
+     * 检查是否为内置占位符
+     */
+    static isBuiltinPlaceholder(name: string): boolean {
+        return BUILTIN_PLACEHOLDERS.includes(name);
+    }
+
+    /**
+     * 按模板中的出现顺序列出占位符名称（去重）
+     */
+    static getPlaceholders(format: string): string[] {
+        const names: string[] = [];
+        for (const match of format.matchAll(TEMPLATE_TOKEN_PATTERN)) {
+            if (!names.includes(match[1])) {
+                names.push(match[1]);
+            }
+        }
+        return names;
+    }
+
+    /**
+     * 检查模板中是否包含指定占位符（含带修饰符的写法）
+     */
+    static hasPlaceholder(format: string, name: string): boolean {
+        return BranchUtils.getPlaceholders(format).includes(name);
+    }
+
+    /**
+     * 校验模板中的占位符均已定义、修饰符均受支持
+     */
+    static validateTemplate(format: string, customNames: string[]): ValidationResult {
+        for (const match of format.matchAll(TEMPLATE_TOKEN_PATTERN)) {
+            const [token, name, modifiers] = match;
+            if (!BranchUtils.isBuiltinPlaceholder(name) && !customNames.includes(name)) {
+                return {
+                    isValid: false,
+                    error: `模板中的占位符 {${name}} 未定义，请在 customPlaceholders 中配置`
+                };
+            }
+            const unknown = modifiers.split('|').filter(Boolean).find(modifier => !TEMPLATE_MODIFIERS[modifier]);
+            if (unknown) {
+                return {
+                    isValid: false,
+                    error: `${token} 中的修饰符 ${unknown} 不受支持，可用：${Object.keys(TEMPLATE_MODIFIERS).join('、')}`
+                };
+            }
+        }
+
+        return {
+            isValid: true
+        };
+    }
+
+    /**
+     * 渲染模板：替换占位符并依次应用修饰符，没有取值的占位符保持原样
+     */
+    static renderTemplate(format: string, values: Record<string, string | undefined>): string {
+        return format.replace(TEMPLATE_TOKEN_PATTERN, (token, name: string, modifiers: string) => {
+            const value = values[name];
+            if (value === undefined) {
+                return token;
+            }
+            return modifiers
+                .split('|')
+                .filter(Boolean)
+                .reduce((result, modifier) => TEMPLATE_MODIFIERS[modifier]?.(result) ?? result, value);
+        });
+    }
+
     /**
      * 生成分支名称
      */
@@ -86,18 +306,23 @@ export class BranchUtils {
         description: string;
         username: string;
         date: string;
+        ticket?: string;
+        placeholders?: Record<string, string>;
         format?: string;
     }): string {
-        const { prefix, description, username, date, format } = options;
+        const { prefix, description, username, date, ticket, placeholders, format } = options;
         const template = format && format.trim().length > 0
             ? format
             : '{prefix}/{date}/{description}_{username}';
 
-        return template
-            .replace(/\{prefix\}/g, prefix)
-            .replace(/\{date\}/g, date)
-            .replace(/\{description\}/g, description)
-            .replace(/\{username\}/g, username);
+        return BranchUtils.renderTemplate(template, {
+            ...placeholders,
+            prefix,
+            date,
+            description,
+            username,
+            ticket
+        });
     }
 }
 
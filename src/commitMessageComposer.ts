@@ -0,0 +1,210 @@
+import * as vscode from "vscode";
+import { AppError } from "./errors";
+
+export interface CommitComposeOptions {
+  /** 用于推断默认提交类型的分支名 */
+  branchName: string;
+  /** 预填的提交主题 */
+  defaultSubject?: string;
+  /** 输入框标题，用于说明本次提交的用途 */
+  title?: string;
+  /** 分支关联的工单号，预填到脚注中 */
+  ticket?: string;
+}
+
+export interface CommitMessageRules {
+  types: string[];
+  headerMaxLength: number;
+  scopeRequired: boolean;
+  prefixTypeMap: Record<string, string>;
+}
+
+const DEFAULT_COMMIT_TYPES = [
+  "feat",
+  "fix",
+  "chore",
+  "refactor",
+  "docs",
+  "style",
+  "test",
+  "perf",
+  "build",
+  "ci",
+  "revert",
+];
+
+const DEFAULT_PREFIX_TYPE_MAP: Record<string, string> = {
+  feature: "feat",
+  feat: "feat",
+  bugfix: "fix",
+  fix: "fix",
+  hotfix: "fix",
+};
+
+/**
+ * 提交信息构建器 - 按 Conventional Commits 规范引导输入提交信息
+ */
+export class CommitMessageComposer {
+  private readonly configurationSection = "gitWorkflowHelper";
+
+  /**
+   * 读取提交信息规则配置
+   */
+  getRules(): CommitMessageRules {
+    const config = vscode.workspace.getConfiguration(this.configurationSection);
+    const types = (config.get<string[]>("commitTypes") || []).filter(
+      (type): type is string => typeof type === "string" && type.trim().length > 0
+    );
+    const headerMaxLength = config.get<number>("commitHeaderMaxLength", 100);
+
+    return {
+      types: types.length > 0 ? types.map((type) => type.trim()) : DEFAULT_COMMIT_TYPES,
+      headerMaxLength: Number.isFinite(headerMaxLength) && headerMaxLength > 0
+        ? Math.floor(headerMaxLength)
+        : 100,
+      scopeRequired: config.get<boolean>("commitScopeRequired", false),
+      prefixTypeMap: {
+        ...DEFAULT_PREFIX_TYPE_MAP,
+        ...(config.get<Record<string, string>>("branchPrefixCommitTypes") || {}),
+      },
+    };
+  }
+
+  /**
+   * 根据分支前缀推断默认提交类型，例如 bugfix/xxx -> fix
+   */
+  static inferType(branchName: string, rules: CommitMessageRules): string {
+    const prefix = branchName.split("/")[0]?.toLowerCase() || "";
+    const mapped = rules.prefixTypeMap[prefix];
+    if (mapped && rules.types.includes(mapped)) {
+      return mapped;
+    }
+    return rules.types[0];
+  }
+
+  /**
+   * 拼接提交信息头部：type(scope): subject
+   */
+  static buildHeader(type: string, scope: string | undefined, subject: string): string {
+    const scopeText = scope && scope.trim().length > 0 ? `(${scope.trim()})` : "";
+    return `${type}${scopeText}: ${subject.trim()}`;
+  }
+
+  /**
+   * 校验提交信息头部的格式与长度
+   */
+  static validateHeader(header: string, rules: CommitMessageRules): string | null {
+    // 类型按配置原样匹配，允许包含大写字母、数字或短横线
+    const match = /^([^\s(!:]+)(\(([\w\-./]+)\))?!?: (\S.*)$/.exec(header);
+    if (!match) {
+      return "提交信息头部需符合 type(scope): subject 格式";
+    }
+    if (!rules.types.includes(match[1])) {
+      return `不支持的提交类型: ${match[1]}`;
+    }
+    if (rules.scopeRequired && !match[3]) {
+      return "提交信息必须包含 scope";
+    }
+    if (/[.。]$/.test(match[4])) {
+      return "提交主题不能以句号结尾";
+    }
+    if (header.length > rules.headerMaxLength) {
+      return `提交信息头部长度不能超过 ${rules.headerMaxLength} 个字符（当前 ${header.length}）`;
+    }
+    return null;
+  }
+
+  /**
+   * 引导用户依次输入类型、scope、主题、正文与脚注，返回完整提交信息；取消时返回 undefined
+   */
+  async compose(options: CommitComposeOptions): Promise<string | undefined> {
+    const rules = this.getRules();
+    const defaultType = CommitMessageComposer.inferType(options.branchName, rules);
+    const titlePrefix = options.title ? `${options.title} - ` : "";
+
+    const typeItems = [defaultType, ...rules.types.filter((type) => type !== defaultType)].map(
+      (type) => ({
+        label: type,
+        description: type === defaultType ? "根据分支前缀推荐" : "",
+      })
+    );
+    const typeItem = await vscode.window.showQuickPick(typeItems, {
+      title: `${titlePrefix}提交类型`,
+      placeHolder: "请选择提交类型",
+    });
+    if (!typeItem) {
+      return undefined;
+    }
+    const type = typeItem.label;
+
+    const scope = await vscode.window.showInputBox({
+      title: `${titlePrefix}影响范围（scope）`,
+      prompt: rules.scopeRequired ? "请输入影响范围" : "请输入影响范围（可选，直接回车跳过）",
+      placeHolder: "例如：login、order",
+      validateInput: (value) => {
+        if (rules.scopeRequired && value.trim().length === 0) {
+          return "影响范围不能为空";
+        }
+        if (value.trim().length > 0 && !/^[\w\-./]+$/.test(value.trim())) {
+          return "影响范围只能包含字母、数字、下划线、短横线、点和斜杠";
+        }
+        return null;
+      },
+    });
+    if (scope === undefined) {
+      return undefined;
+    }
+
+    const subject = await vscode.window.showInputBox({
+      title: `${titlePrefix}提交主题`,
+      prompt: "请输入提交主题",
+      placeHolder: "输入提交信息...",
+      value: options.defaultSubject,
+      validateInput: (value) => {
+        if (!value || value.trim().length === 0) {
+          return "提交信息不能为空";
+        }
+        return CommitMessageComposer.validateHeader(
+          CommitMessageComposer.buildHeader(type, scope, value),
+          rules
+        );
+      },
+    });
+    if (!subject) {
+      return undefined;
+    }
+
+    const body = await vscode.window.showInputBox({
+      title: `${titlePrefix}正文`,
+      prompt: "请输入提交正文（可选，直接回车跳过）",
+    });
+    if (body === undefined) {
+      return undefined;
+    }
+
+    const footer = await vscode.window.showInputBox({
+      title: `${titlePrefix}脚注`,
+      prompt: "请输入脚注（可选，直接回车跳过）",
+      placeHolder: "例如：Closes #123 或 BREAKING CHANGE: xxx",
+      value: options.ticket ? `Refs: ${options.ticket}` : undefined,
+    });
+    if (footer === undefined) {
+      return undefined;
+    }
+
+    return [CommitMessageComposer.buildHeader(type, scope, subject), body.trim(), footer.trim()]
+      .filter((section) => section.length > 0)
+      .join("\n\n");
+  }
+
+  /**
+   * 与 compose 相同，但用户取消时抛出取消错误
+   */
+  async composeOrCancel(options: CommitComposeOptions): Promise<string> {
+    const message = await this.compose(options);
+    if (!message) {
+      throw AppError.userCancelled("未输入提交信息，操作已取消");
+    }
+    return message;
+  }
+}
@@ -0,0 +1,163 @@
+import { exec } from "child_process";
+import * as path from "path";
+import { promisify } from "util";
+import * as vscode from "vscode";
+import { GitOperations } from "./gitOperations";
+import { AutoResolvedConflict, AutoResolveStrategy } from "./mergeTypes";
+
+const execAsync = promisify(exec);
+
+export interface AutoResolveRule {
+  /** 匹配冲突文件的 glob，不含 "/" 时匹配文件名 */
+  pattern: string;
+  strategy: AutoResolveStrategy;
+  /** strategy 为 command 时执行的重新生成命令 */
+  command?: string;
+  /** 命令超时时间（秒） */
+  timeoutSeconds: number;
+}
+
+const AUTO_RESOLVE_STRATEGIES: AutoResolveStrategy[] = ["ours", "theirs", "union", "command"];
+const DEFAULT_COMMAND_TIMEOUT_SECONDS = 300;
+/** 重新生成命令（如 npm install）输出较多，放宽默认 1MB 的输出上限 */
+const COMMAND_MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * 冲突自动解决 - 按 glob 规则处理锁文件、生成代码、变更日志等已知冲突
+ */
+export class ConflictAutoResolver {
+  private readonly configurationSection = "gitWorkflowHelper";
+
+  /**
+   * 读取自动解决规则配置
+   */
+  getRules(): AutoResolveRule[] {
+    const config = vscode.workspace.getConfiguration(this.configurationSection);
+    const rules = config.get<Array<Partial<AutoResolveRule>>>("autoResolveRules") || [];
+    return rules
+      .filter(
+        (rule): rule is Partial<AutoResolveRule> & Pick<AutoResolveRule, "pattern" | "strategy"> =>
+          typeof rule?.pattern === "string" &&
+          rule.pattern.trim().length > 0 &&
+          AUTO_RESOLVE_STRATEGIES.includes(rule.strategy as AutoResolveStrategy) &&
+          (rule.strategy !== "command" || (typeof rule.command === "string" && rule.command.trim().length > 0))
+      )
+      .map((rule) => ({
+        pattern: rule.pattern.trim(),
+        strategy: rule.strategy,
+        command: rule.command?.trim(),
+        timeoutSeconds:
+          typeof rule.timeoutSeconds === "number" && rule.timeoutSeconds > 0
+            ? rule.timeoutSeconds
+            : DEFAULT_COMMAND_TIMEOUT_SECONDS,
+      }));
+  }
+
+  /**
+   * 将 glob 转换为正则：** 匹配任意层级目录，* 与 ? 不跨越目录
+   */
+  static globToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === "*" && pattern[i + 1] === "*") {
+        const followedBySlash = pattern[i + 2] === "/";
+        source += followedBySlash ? "(?:.*/)?" : ".*";
+        i += followedBySlash ? 2 : 1;
+      } else if (char === "*") {
+        source += "[^/]*";
+      } else if (char === "?") {
+        source += "[^/]";
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      }
+    }
+    return new RegExp(`^${source}$`);
+  }
+
+  static matches(rule: AutoResolveRule, filePath: string): boolean {
+    const target = rule.pattern.includes("/") ? filePath : path.posix.basename(filePath);
+    return ConflictAutoResolver.globToRegExp(rule.pattern.replace(/^\//, "")).test(target);
+  }
+
+  /**
+   * 对当前冲突文件应用第一条匹配的规则，返回成功自动解决的文件；单个文件失败时保留给交互流程处理
+   */
+  async resolve(gitOps: GitOperations): Promise<AutoResolvedConflict[]> {
+    const rules = this.getRules();
+    if (rules.length === 0) {
+      return [];
+    }
+
+    const resolved: AutoResolvedConflict[] = [];
+    const commandsToRun = new Map<string, { rule: AutoResolveRule; files: string[] }>();
+
+    for (const entry of await gitOps.getConflictEntries()) {
+      const rule = rules.find((candidate) => ConflictAutoResolver.matches(candidate, entry.path));
+      if (!rule) {
+        continue;
+      }
+
+      try {
+        switch (rule.strategy) {
+          case "ours":
+          case "theirs":
+            await gitOps.resolveConflictWith(entry.path, rule.strategy);
+            resolved.push({ path: entry.path, strategy: rule.strategy });
+            break;
+          case "union":
+            await gitOps.resolveConflictWithUnion(entry.path);
+            resolved.push({ path: entry.path, strategy: "union" });
+            break;
+          case "command": {
+            const command = rule.command;
+            if (!command) {
+              break;
+            }
+            // 工作区先写入目标分支的版本，索引保持冲突状态，命令成功后再暂存；同一命令只执行一次
+            await gitOps.checkoutConflictSide(entry.path, "ours");
+            const pending = commandsToRun.get(command) || { rule, files: [] };
+            pending.files.push(entry.path);
+            commandsToRun.set(command, pending);
+            break;
+          }
+        }
+      } catch (error) {
+        console.warn(`自动解决冲突 ${entry.path} 失败，交由手动处理:`, error);
+      }
+    }
+
+    for (const [command, { rule, files }] of commandsToRun) {
+      try {
+        await execAsync(command, {
+          cwd: gitOps.getWorkspaceRoot(),
+          timeout: rule.timeoutSeconds * 1000,
+          maxBuffer: COMMAND_MAX_BUFFER,
+        });
+      } catch (error) {
+        console.warn(`执行重新生成命令 ${command} 失败:`, error);
+        // 恢复冲突标记，相关文件仍处于冲突状态，交由交互流程处理
+        for (const file of files) {
+          await gitOps.restoreConflictMarkers(file).catch((restoreError) =>
+            console.warn(`恢复 ${file} 的冲突标记失败:`, restoreError)
+          );
+        }
+        vscode.window.showWarningMessage(
+          `重新生成命令执行失败，${files.join(", ")} 仍保留冲突，请手动处理: ${command}`
+        );
+        continue;
+      }
+
+      for (const file of files) {
+        try {
+          await gitOps.stageFile(file);
+          resolved.push({ path: file, strategy: "command", command });
+        } catch (error) {
+          console.warn(`暂存重新生成的 ${file} 失败，交由手动处理:`, error);
+        }
+      }
+    }
+
+    return resolved;
+  }
+}
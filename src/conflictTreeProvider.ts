@@ -0,0 +1,300 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { AppError } from "./errors";
+import { GitOperations } from "./gitOperations";
+import { ConflictEntry, ConflictSide, ConflictType } from "./mergeTypes";
+
+interface ConflictGroupNode {
+  kind: "group";
+  type: ConflictType;
+  entries: ConflictEntry[];
+}
+
+interface ConflictFileNode {
+  kind: "file";
+  entry: ConflictEntry;
+}
+
+export type ConflictTreeNode = ConflictGroupNode | ConflictFileNode;
+
+const CONFLICT_TYPE_LABELS: Record<ConflictType, string> = {
+  UU: "双方修改 (UU)",
+  AA: "双方新增 (AA)",
+  DD: "双方删除 (DD)",
+  AU: "当前分支新增 (AU)",
+  UA: "合入分支新增 (UA)",
+  DU: "当前分支删除 (DU)",
+  UD: "合入分支删除 (UD)",
+};
+
+const STAGE_LABELS: Record<1 | 2 | 3, string> = {
+  1: "共同祖先",
+  2: "当前(ours)",
+  3: "传入(theirs)",
+};
+
+const CONFLICT_STAGE_SCHEME = "git-workflow-conflict";
+
+/**
+ * 合并冲突视图 - 按冲突类型分组展示冲突文件，并提供逐个文件的解决操作
+ */
+export class ConflictTreeProvider implements vscode.TreeDataProvider<ConflictTreeNode> {
+  static readonly viewId = "gitWorkflowHelper.mergeConflicts";
+  private static instance: ConflictTreeProvider | undefined;
+
+  private gitOps?: GitOperations;
+  private entries: ConflictEntry[] = [];
+  private readonly changeEmitter = new vscode.EventEmitter<ConflictTreeNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /**
+   * 注册冲突视图、三方差异内容提供器与文件操作命令
+   */
+  static register(context: vscode.ExtensionContext): ConflictTreeProvider {
+    const provider = new ConflictTreeProvider();
+    ConflictTreeProvider.instance = provider;
+
+    const withFile =
+      (action: (entry: ConflictEntry) => Promise<void>) =>
+      async (node?: ConflictTreeNode) => {
+        if (node?.kind !== "file") {
+          return;
+        }
+        try {
+          await action(node.entry);
+        } catch (error: any) {
+          vscode.window.showErrorMessage(`处理冲突文件失败: ${error?.message || error}`);
+        } finally {
+          await provider.refresh();
+        }
+      };
+
+    context.subscriptions.push(
+      provider.changeEmitter,
+      vscode.window.registerTreeDataProvider(ConflictTreeProvider.viewId, provider),
+      vscode.workspace.registerTextDocumentContentProvider(CONFLICT_STAGE_SCHEME, {
+        provideTextDocumentContent: (uri) => provider.provideStageContent(uri),
+      }),
+      vscode.workspace.onDidSaveTextDocument(() => provider.refresh()),
+      vscode.commands.registerCommand("gitWorkflowHelper.refreshConflicts", () => provider.refresh()),
+      vscode.commands.registerCommand(
+        "gitWorkflowHelper.openConflictInMergeEditor",
+        withFile((entry) => provider.openInMergeEditor(entry))
+      ),
+      vscode.commands.registerCommand(
+        "gitWorkflowHelper.takeOurs",
+        withFile((entry) => provider.takeSide(entry, "ours"))
+      ),
+      vscode.commands.registerCommand(
+        "gitWorkflowHelper.takeTheirs",
+        withFile((entry) => provider.takeSide(entry, "theirs"))
+      ),
+      vscode.commands.registerCommand(
+        "gitWorkflowHelper.markConflictResolved",
+        withFile((entry) => provider.markResolved(entry))
+      ),
+      vscode.commands.registerCommand(
+        "gitWorkflowHelper.showConflictDiff",
+        withFile((entry) => provider.showThreeWayDiff(entry))
+      )
+    );
+
+    void provider.refresh();
+    return provider;
+  }
+
+  static getInstance(): ConflictTreeProvider | undefined {
+    return ConflictTreeProvider.instance;
+  }
+
+  /**
+   * 切换到指定仓库的冲突并显示视图
+   */
+  async show(gitOps: GitOperations): Promise<void> {
+    this.gitOps = gitOps;
+    await this.refresh();
+    try {
+      await vscode.commands.executeCommand(`${ConflictTreeProvider.viewId}.focus`);
+    } catch (error) {
+      console.warn("无法聚焦合并冲突视图:", error);
+    }
+  }
+
+  /**
+   * 当前视图对应的仓库根目录
+   */
+  getWorkspaceRoot(): string | undefined {
+    return this.resolveGitOps()?.getWorkspaceRoot();
+  }
+
+  /**
+   * 重新读取冲突文件列表
+   */
+  async refresh(): Promise<void> {
+    const gitOps = this.resolveGitOps();
+    if (!gitOps) {
+      this.entries = [];
+    } else {
+      this.entries = await gitOps.getConflictEntries();
+      const inProgress =
+        (await gitOps.isMergeInProgress().catch(() => false)) ||
+        (await gitOps.isRebaseInProgress().catch(() => false));
+      await vscode.commands.executeCommand(
+        "setContext",
+        "gitWorkflowHelper.mergeInProgress",
+        inProgress
+      );
+    }
+    await vscode.commands.executeCommand(
+      "setContext",
+      "gitWorkflowHelper.hasConflicts",
+      this.entries.length > 0
+    );
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(node: ConflictTreeNode): vscode.TreeItem {
+    if (node.kind === "group") {
+      const item = new vscode.TreeItem(
+        CONFLICT_TYPE_LABELS[node.type],
+        vscode.TreeItemCollapsibleState.Expanded
+      );
+      item.description = `${node.entries.length} 个文件`;
+      item.contextValue = "conflictGroup";
+      return item;
+    }
+
+    const root = this.resolveGitOps()?.getWorkspaceRoot();
+    const item = root
+      ? new vscode.TreeItem(vscode.Uri.file(path.join(root, node.entry.path)), vscode.TreeItemCollapsibleState.None)
+      : new vscode.TreeItem(node.entry.path, vscode.TreeItemCollapsibleState.None);
+    item.label = path.basename(node.entry.path);
+    item.description = path.dirname(node.entry.path) === "." ? "" : path.dirname(node.entry.path);
+    item.tooltip = `${node.entry.path}（${CONFLICT_TYPE_LABELS[node.entry.type]}）`;
+    item.contextValue = "conflictFile";
+    item.command = {
+      command: "gitWorkflowHelper.openConflictInMergeEditor",
+      title: "在合并编辑器中打开",
+      arguments: [node],
+    };
+    return item;
+  }
+
+  getChildren(node?: ConflictTreeNode): ConflictTreeNode[] {
+    if (node?.kind === "group") {
+      return node.entries.map((entry) => ({ kind: "file", entry }));
+    }
+    if (node) {
+      return [];
+    }
+
+    const groups = new Map<ConflictType, ConflictEntry[]>();
+    for (const entry of this.entries) {
+      groups.set(entry.type, [...(groups.get(entry.type) || []), entry]);
+    }
+    return Array.from(groups.entries()).map(([type, entries]) => ({
+      kind: "group",
+      type,
+      entries,
+    }));
+  }
+
+  private resolveGitOps(): GitOperations | undefined {
+    if (!this.gitOps) {
+      const folder = vscode.workspace.workspaceFolders?.find((workspaceFolder) =>
+        fs.existsSync(path.join(workspaceFolder.uri.fsPath, ".git"))
+      );
+      this.gitOps = folder ? new GitOperations(folder.uri.fsPath) : undefined;
+    }
+    return this.gitOps;
+  }
+
+  /**
+   * 获取当前仓库的 Git 操作对象，工作区不是 Git 仓库时抛出错误
+   */
+  private requireGitOps(): GitOperations {
+    const gitOps = this.resolveGitOps();
+    if (!gitOps) {
+      throw new AppError("当前工作区不是Git仓库，请在Git项目中使用此插件", "NOT_GIT_REPO", {
+        stage: "conflictView",
+      });
+    }
+    return gitOps;
+  }
+
+  private async openInMergeEditor(entry: ConflictEntry): Promise<void> {
+    const uri = vscode.Uri.file(path.join(this.requireGitOps().getWorkspaceRoot(), entry.path));
+    if (entry.type === "UU" || entry.type === "AA") {
+      try {
+        await vscode.commands.executeCommand("git.openMergeEditor", uri);
+        return;
+      } catch (error) {
+        console.warn("无法打开合并编辑器，改为直接打开文件:", error);
+      }
+    }
+    if (fs.existsSync(uri.fsPath)) {
+      await vscode.window.showTextDocument(uri, { preview: false });
+    } else {
+      await this.showThreeWayDiff(entry);
+    }
+  }
+
+  private async takeSide(entry: ConflictEntry, side: ConflictSide): Promise<void> {
+    await this.requireGitOps().resolveConflictWith(entry.path, side);
+  }
+
+  private async markResolved(entry: ConflictEntry): Promise<void> {
+    const filePath = path.join(this.requireGitOps().getWorkspaceRoot(), entry.path);
+    const content = fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf8") : "";
+    if (/^(<{7}|>{7})( |$)/m.test(content)) {
+      const confirm = await vscode.window.showWarningMessage(
+        `${entry.path} 中仍包含冲突标记，确定标记为已解决吗？`,
+        { modal: true },
+        "标记为已解决"
+      );
+      if (confirm !== "标记为已解决") {
+        return;
+      }
+    }
+    await this.requireGitOps().stageFile(entry.path);
+  }
+
+  /**
+   * 分别对比共同祖先与当前分支、共同祖先与合入分支的版本
+   */
+  private async showThreeWayDiff(entry: ConflictEntry): Promise<void> {
+    const stageUri = (stage: 1 | 2 | 3) =>
+      vscode.Uri.from({
+        scheme: CONFLICT_STAGE_SCHEME,
+        path: `/${entry.path}`,
+        query: `stage=${stage}`,
+      });
+    const name = path.basename(entry.path);
+
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      stageUri(1),
+      stageUri(2),
+      `${name}（${STAGE_LABELS[1]} ↔ ${STAGE_LABELS[2]}）`,
+      { preview: false }
+    );
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      stageUri(1),
+      stageUri(3),
+      `${name}（${STAGE_LABELS[1]} ↔ ${STAGE_LABELS[3]}）`,
+      { preview: false, viewColumn: vscode.ViewColumn.Beside }
+    );
+  }
+
+  private async provideStageContent(uri: vscode.Uri): Promise<string> {
+    const stage = Number(new URLSearchParams(uri.query).get("stage")) as 1 | 2 | 3;
+    try {
+      return await this.requireGitOps().showConflictStage(uri.path.replace(/^\//, ""), stage);
+    } catch {
+      // 新增或删除类冲突中该阶段不存在
+      return "";
+    }
+  }
+}
@@ -0,0 +1,169 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { ConflictTreeProvider } from "./conflictTreeProvider";
+import { AppError } from "./errors";
+import { GitOperations } from "./gitOperations";
+
+export type ConflictWaitOutcome = "resolved" | "aborted";
+
+const CHECK_DEBOUNCE_MS = 300;
+
+/**
+ * 冲突等待 - 监听 .git/index 与 MERGE_HEAD 的变化，冲突全部解决后自动继续，不阻塞编辑器
+ */
+export class ConflictWatcher {
+  private static active: ConflictWatcher | undefined;
+
+  private gitOps: GitOperations;
+  private disposables: vscode.Disposable[] = [];
+  private statusBarItem: vscode.StatusBarItem;
+  private debounceTimer: NodeJS.Timeout | undefined;
+  private checking = false;
+  private recheckRequested = false;
+  private continueRequested = false;
+  private initialHead = "";
+  private finish: (outcome: ConflictWaitOutcome) => void = () => undefined;
+  private fail: (error: unknown) => void = () => undefined;
+
+  private constructor(gitOps: GitOperations) {
+    this.gitOps = gitOps;
+    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    this.statusBarItem.command = "gitWorkflowHelper.continueMerge";
+  }
+
+  /**
+   * 通知正在等待的冲突处理立即检查并继续；没有等待中的流程时返回 false
+   */
+  static requestContinue(): boolean {
+    const watcher = ConflictWatcher.active;
+    if (!watcher) {
+      return false;
+    }
+    watcher.continueRequested = true;
+    watcher.scheduleCheck(0);
+    return true;
+  }
+
+  /**
+   * 等待当前仓库的冲突全部解决（或合并被中止）
+   */
+  static async waitForResolution(gitOps: GitOperations): Promise<ConflictWaitOutcome> {
+    const watcher = new ConflictWatcher(gitOps);
+    ConflictWatcher.active = watcher;
+    try {
+      return await watcher.wait();
+    } finally {
+      watcher.dispose();
+      if (ConflictWatcher.active === watcher) {
+        ConflictWatcher.active = undefined;
+      }
+    }
+  }
+
+  private async wait(): Promise<ConflictWaitOutcome> {
+    this.initialHead = await this.gitOps.getCommitSha().catch(() => "");
+    const root = this.gitOps.getWorkspaceRoot();
+
+    for (const name of ["index", "MERGE_HEAD"]) {
+      const gitPath = path.resolve(root, await this.gitOps.execGitArgs(["rev-parse", "--git-path", name]));
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(vscode.Uri.file(path.dirname(gitPath)), path.basename(gitPath))
+      );
+      watcher.onDidCreate(() => this.scheduleCheck());
+      watcher.onDidChange(() => this.scheduleCheck());
+      watcher.onDidDelete(() => this.scheduleCheck());
+      this.disposables.push(watcher);
+    }
+    this.disposables.push(vscode.workspace.onDidSaveTextDocument(() => this.scheduleCheck()));
+
+    return await new Promise<ConflictWaitOutcome>((resolve, reject) => {
+      this.finish = resolve;
+      this.fail = reject;
+
+      const token = this.gitOps.getCancellationToken();
+      if (token) {
+        this.disposables.push(
+          token.onCancellationRequested(() =>
+            reject(AppError.operationCancelled("已取消冲突处理", "waitForConflictResolution"))
+          )
+        );
+      }
+
+      this.statusBarItem.show();
+      void this.showNotification();
+      this.scheduleCheck(0);
+    });
+  }
+
+  private async showNotification(): Promise<void> {
+    const action = await vscode.window.showInformationMessage(
+      "正在等待冲突解决：暂存已解决的文件后会自动继续合并，也可以点击状态栏继续",
+      "继续",
+      "中止合并"
+    );
+    if (action === "继续") {
+      this.continueRequested = true;
+      this.scheduleCheck(0);
+    } else if (action === "中止合并") {
+      this.finish("aborted");
+    }
+  }
+
+  private scheduleCheck(delay: number = CHECK_DEBOUNCE_MS): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => void this.check(), delay);
+  }
+
+  private async check(): Promise<void> {
+    if (this.checking) {
+      this.recheckRequested = true;
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const conflictFiles = await this.gitOps.getConflictFiles();
+      await ConflictTreeProvider.getInstance()?.refresh();
+
+      if (conflictFiles.length === 0) {
+        const stillMerging =
+          (await this.gitOps.isMergeInProgress()) ||
+          (await this.gitOps.isRebaseInProgress()) ||
+          (await this.gitOps.checkStagedChanges());
+        const headMoved = (await this.gitOps.getCommitSha().catch(() => "")) !== this.initialHead;
+        // 合并状态消失且 HEAD 未移动，说明合并已在外部被中止
+        this.finish(stillMerging || headMoved ? "resolved" : "aborted");
+        return;
+      }
+
+      this.statusBarItem.text = `$(git-merge) 剩余 ${conflictFiles.length} 个冲突`;
+      this.statusBarItem.tooltip = `${conflictFiles.join("\n")}\n\n全部暂存后自动继续合并`;
+
+      if (this.continueRequested) {
+        this.continueRequested = false;
+        vscode.window.showWarningMessage(
+          `仍有 ${conflictFiles.length} 个文件存在冲突，请解决并暂存后再继续`
+        );
+      }
+    } catch (error) {
+      this.fail(error);
+    } finally {
+      this.checking = false;
+      if (this.recheckRequested) {
+        this.recheckRequested = false;
+        this.scheduleCheck(0);
+      }
+    }
+  }
+
+  private dispose(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.statusBarItem.dispose();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables = [];
+  }
+}
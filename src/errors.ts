@@ -3,6 +3,13 @@ export type ErrorCode =
   | "GIT_COMMAND_FAILED"
   | "NOT_GIT_REPO"
   | "INVALID_WORKSPACE"
+  | "MERGE_CONFLICT"
+  | "MERGE_ABORTED"
+  | "TARGET_PROTECTED"
+  | "PROMOTION_BLOCKED"
+  | "PUSH_REJECTED"
+  | "VERIFICATION_FAILED"
+  | "OPERATION_CANCELLED"
   | "UNKNOWN";
 
 export class AppError extends Error {
@@ -26,6 +33,10 @@ export class AppError extends Error {
     return new AppError(message, "USER_CANCELLED");
   }
 
+  static operationCancelled(message: string, stage?: string): AppError {
+    return new AppError(message, "OPERATION_CANCELLED", { stage });
+  }
+
   static gitFailed(message: string, stage?: string, cause?: unknown): AppError {
     return new AppError(message, "GIT_COMMAND_FAILED", { stage, cause });
   }
@@ -41,9 +52,20 @@ export function toAppError(error: unknown, fallbackMessage = "未知错误"): Ap
   return new AppError(String(error || fallbackMessage), "UNKNOWN", { cause: error });
 }
 
+/**
+ * 是否为进度通知中途取消（需要回滚已执行的操作）
+ */
+export function isOperationCancelledError(error: unknown): boolean {
+  return error instanceof AppError && error.code === "OPERATION_CANCELLED";
+}
+
 export function isUserCancelledError(error: unknown): boolean {
   const appError = error instanceof AppError ? error : null;
-  if (appError?.code === "USER_CANCELLED") {
+  if (
+    appError?.code === "USER_CANCELLED" ||
+    appError?.code === "MERGE_ABORTED" ||
+    appError?.code === "OPERATION_CANCELLED"
+  ) {
     return true;
   }
   const message = error instanceof Error ? error.message : String(error || "");
@@ -1,8 +1,12 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { BranchConfigManager } from './branchConfigManager';
 import { BranchCreator } from './branchCreator';
+import { ConflictTreeProvider } from './conflictTreeProvider';
 import { AppError, isUserCancelledError, toAppError } from './errors';
 import { GitMergeService } from './gitMergeService';
+import { MergeReviewer } from './mergeReviewer';
 
 async function selectWorkspaceRoot(): Promise<string> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -50,6 +54,24 @@ function handleCommandError(action: string, error: unknown): void {
     vscode.window.showErrorMessage(`${action}失败${stageText}: ${appError.message}`);
 }
 
+/**
+ * 检查各工作区是否存在中断的合并流程
+ */
+async function checkInterruptedMerges(): Promise<void> {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    for (const folder of workspaceFolders) {
+        const workspaceRoot = folder.uri.fsPath;
+        if (!fs.existsSync(path.join(workspaceRoot, '.git'))) {
+            continue;
+        }
+        try {
+            await new GitMergeService(workspaceRoot).checkInterruptedMerge();
+        } catch (error: any) {
+            handleCommandError('恢复合并', error);
+        }
+    }
+}
+
 /**
  * 插件激活函数
  * @param context - VSCode扩展上下文
@@ -86,6 +108,52 @@ export function activate(context: vscode.ExtensionContext) {
         }
     );
 
+    // 注册同步基础分支命令
+    const syncFeatureBranchCommand = vscode.commands.registerCommand(
+        'gitWorkflowHelper.syncFeatureBranch',
+        async () => {
+            try {
+                const workspaceRoot = await selectWorkspaceRoot();
+                const gitMergeService = new GitMergeService(workspaceRoot);
+                await gitMergeService.syncFeatureBranch();
+            } catch (error: any) {
+                handleCommandError('同步', error);
+            }
+        }
+    );
+
+    // 注册合并历史命令
+    const showMergeHistoryCommand = vscode.commands.registerCommand(
+        'gitWorkflowHelper.showMergeHistory',
+        async () => {
+            try {
+                const workspaceRoot = await selectWorkspaceRoot();
+                const gitMergeService = new GitMergeService(workspaceRoot);
+                await gitMergeService.showMergeHistory();
+            } catch (error: any) {
+                handleCommandError('查看合并历史', error);
+            }
+        }
+    );
+
+    // 注册合并预览差异内容提供器
+    MergeReviewer.register(context);
+
+    // 注册合并冲突视图及继续合并命令
+    const conflictTreeProvider = ConflictTreeProvider.register(context);
+    const continueMergeCommand = vscode.commands.registerCommand(
+        'gitWorkflowHelper.continueMerge',
+        async () => {
+            try {
+                const workspaceRoot = conflictTreeProvider.getWorkspaceRoot() ?? await selectWorkspaceRoot();
+                const gitMergeService = new GitMergeService(workspaceRoot);
+                await gitMergeService.continueMerge();
+            } catch (error: any) {
+                handleCommandError('继续合并', error);
+            }
+        }
+    );
+
     // 注册配置管理命令
     const manageConfigurationCommand = vscode.commands.registerCommand(
         'gitWorkflowHelper.manageConfiguration',
@@ -104,8 +172,13 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(
         createBranchCommand,
         mergeFeatureBranchCommand,
+        syncFeatureBranchCommand,
+        showMergeHistoryCommand,
+        continueMergeCommand,
         manageConfigurationCommand
     );
+
+    void checkInterruptedMerges();
 }
 
 /**
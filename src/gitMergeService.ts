@@ -3,10 +3,20 @@ import * as path from "path";
 import * as vscode from "vscode";
 import { BranchConfigManager } from "./branchConfigManager";
 import { BranchManager } from "./branchManager";
+import { CommitMessageComposer } from "./commitMessageComposer";
+import { ConflictTreeProvider } from "./conflictTreeProvider";
+import { ConflictWatcher } from "./conflictWatcher";
 import { GitOperations } from "./gitOperations";
+import { MergeHistory } from "./mergeHistory";
+import { MergeJournal, MergeJournalEntry } from "./mergeJournal";
+import { MergeNotifier } from "./mergeNotifier";
+import { MergeReviewer } from "./mergeReviewer";
+import { MergeVerifier } from "./mergeVerifier";
 import { MergeWorkflow } from "./mergeWorkflow";
 import { MergeTargetConfigManager } from "./mergeTargetConfigManager";
+import { RemoteConfigManager } from "./remoteConfigManager";
 import { AppError, isUserCancelledError, toAppError } from "./errors";
+import { MergeHistoryEntry } from "./mergeTypes";
 
 /**
  * Git合并服务类
@@ -20,6 +30,9 @@ export class GitMergeService {
   private mergeWorkflow: MergeWorkflow;
   private branchConfigManager: BranchConfigManager;
   private mergeTargetConfigManager: MergeTargetConfigManager;
+  private mergeJournal: MergeJournal;
+  private mergeHistory: MergeHistory;
+  private mergeNotifier: MergeNotifier;
 
   constructor(workspaceRoot: string) {
     this.workspaceRoot = workspaceRoot;
@@ -39,19 +52,289 @@ export class GitMergeService {
     this.mergeTargetConfigManager = new MergeTargetConfigManager(
       vscode.workspace.getConfiguration("gitWorkflowHelper")
     );
+    this.mergeJournal = new MergeJournal(this.gitOps);
+    this.mergeHistory = new MergeHistory(this.gitOps);
+    this.mergeNotifier = new MergeNotifier(this.gitOps, this.mergeTargetConfigManager);
 
     this.mergeWorkflow = new MergeWorkflow(
       this.gitOps,
       this.branchManager,
       this.branchConfigManager,
-      this.mergeTargetConfigManager
+      this.mergeTargetConfigManager,
+      this.mergeJournal,
+      new CommitMessageComposer(),
+      new MergeVerifier(),
+      new RemoteConfigManager(this.workspaceRoot),
+      new MergeReviewer(this.gitOps)
     );
   }
 
   /**
-   * 合并功能分支主流程
+   * 合并功能分支主流程（传入 presetTargets 时跳过目标分支选择，传入 sourceBranch 时先切换到该分支）
    */
-  public async mergeFeatureBranch(): Promise<void> {
+  public async mergeFeatureBranch(presetTargets?: string[], sourceBranch?: string): Promise<void> {
+    // 存在未完成的合并流程时先让用户恢复或中止，不开始新的合并
+    if (!GitMergeService.isOperationInProgress && (await this.mergeJournal.load())) {
+      await this.checkInterruptedMerge();
+      return;
+    }
+
+    let currentBranch = "";
+    let targetBranches: string[] = [];
+
+    await this.runExclusive("合并", async (progress) => {
+      try {
+        progress.report({ message: "⚠️ 合并过程中请不要手动操作Git！准备合并环境...", increment: 0 });
+        currentBranch = await this.mergeWorkflow.prepareMergeEnvironment(progress, sourceBranch);
+        
+        progress.report({ message: "请选择目标分支...", increment: 0 });
+        targetBranches = presetTargets ?? (await this.mergeWorkflow.gatherMergeParameters(currentBranch));
+        
+        progress.report({ message: `⚠️ 正在合并到 ${targetBranches.join(", ")}，请勿手动操作Git！`, increment: 10 });
+        const results = await this.mergeWorkflow.executeMainMergeFlow(currentBranch, targetBranches, progress);
+        await this.mergeHistory.record(currentBranch, results);
+        // Webhook 通知在后台执行，不阻塞也不影响合并结果
+        void this.mergeNotifier.notify(currentBranch, results);
+        
+        progress.report({ message: "✅ 合并完成！", increment: 100 });
+        await this.mergeWorkflow.showMergeSummary(results);
+      } catch (error: any) {
+        // 选择目标分支之后终止的合并同样记录到合并历史
+        await this.mergeHistory.recordFailure(currentBranch, targetBranches, error);
+        await this.mergeWorkflow.handleMergeError(error, currentBranch);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * 将基础分支的最新提交同步到当前功能分支（合并或变基）并推送
+   */
+  public async syncFeatureBranch(): Promise<void> {
+    await this.runExclusive("同步", async (progress) => {
+      try {
+        progress.report({ message: "⚠️ 同步过程中请不要手动操作Git！准备同步环境...", increment: 0 });
+        const currentBranch = await this.mergeWorkflow.prepareMergeEnvironment(progress);
+
+        const result = await this.mergeWorkflow.syncFeatureBranch(currentBranch, progress);
+        progress.report({ message: "✅ 同步完成！", increment: 100 });
+
+        if (result.integratedCount === 0) {
+          vscode.window.showInformationMessage(`${currentBranch} 已包含 ${result.baseRef} 的所有提交，无需同步`);
+          return;
+        }
+        const action = result.strategy === "rebase" ? "变基到" : "合并了";
+        vscode.window.showInformationMessage(
+          `✓ ${currentBranch} 已${action} ${result.baseRef}，同步了 ${result.integratedCount} 个提交并推送`
+        );
+      } catch (error: any) {
+        await this.mergeWorkflow.handleSyncError(error);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * 检查是否存在中断的合并流程，并让用户选择恢复、中止或丢弃记录
+   */
+  public async checkInterruptedMerge(): Promise<void> {
+    const entry = await this.mergeJournal.load();
+    if (!entry || GitMergeService.isOperationInProgress) {
+      return;
+    }
+
+    const repoName = path.basename(this.workspaceRoot);
+    const action = await vscode.window.showWarningMessage(
+      `[${repoName}] 检测到未完成的合并流程：${entry.sourceBranch} → ${entry.targetBranch}（阶段：${entry.stage}）`,
+      "恢复合并",
+      "中止并恢复原分支",
+      "丢弃记录"
+    );
+
+    switch (action) {
+      case "恢复合并":
+        await this.resumeInterruptedMerge(entry);
+        return;
+      case "中止并恢复原分支":
+        await this.abortInterruptedMerge(entry);
+        return;
+      case "丢弃记录":
+        await this.mergeJournal.clear();
+        return;
+      default:
+        return;
+    }
+  }
+
+  /**
+   * 恢复中断的合并流程
+   */
+  private async resumeInterruptedMerge(entry: MergeJournalEntry): Promise<void> {
+    await this.runExclusive("恢复合并", async (progress) => {
+      try {
+        const results = await this.mergeWorkflow.resumeMergeFlow(entry, progress);
+        await this.mergeHistory.record(entry.sourceBranch, results);
+        void this.mergeNotifier.notify(entry.sourceBranch, results);
+        if (results.length > 0) {
+          await this.mergeWorkflow.showMergeSummary(results);
+        } else {
+          vscode.window.showInformationMessage(`所有目标分支均已处理，已切回 ${entry.originalBranch}`);
+        }
+      } catch (error: any) {
+        const remainingTargets = entry.targets.filter(
+          (target) => !entry.completedTargets.includes(target)
+        );
+        await this.mergeHistory.recordFailure(entry.sourceBranch, remainingTargets, error);
+        await this.mergeWorkflow.handleMergeError(error, entry.originalBranch);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * 冲突全部解决后继续合并：存在合并流程记录时恢复流程，否则直接完成进行中的合并
+   */
+  public async continueMerge(): Promise<void> {
+    // 合并流程正在等待冲突解决时，由等待中的流程继续提交与推送
+    if (ConflictWatcher.requestContinue()) {
+      return;
+    }
+
+    try {
+      if (await this.gitOps.checkMergeConflicts()) {
+        vscode.window.showWarningMessage("仍有未解决的冲突，请先处理所有冲突文件");
+        return;
+      }
+
+      const entry = await this.mergeJournal.load();
+      if (entry) {
+        await this.resumeInterruptedMerge(entry);
+      } else if (await this.gitOps.isMergeInProgress()) {
+        if (await this.mergeWorkflow.commitPendingMerge()) {
+          vscode.window.showInformationMessage("合并已提交，请确认后手动推送");
+        } else {
+          vscode.window.showWarningMessage("未输入提交信息，合并尚未提交");
+        }
+      } else if (await this.gitOps.isRebaseInProgress()) {
+        await this.gitOps.continueRebase();
+        vscode.window.showInformationMessage("已继续变基");
+      } else {
+        vscode.window.showInformationMessage("当前没有进行中的合并");
+      }
+    } finally {
+      await ConflictTreeProvider.getInstance()?.refresh();
+    }
+  }
+
+  /**
+   * 中止中断的合并流程并切回原分支
+   */
+  private async abortInterruptedMerge(entry: MergeJournalEntry): Promise<void> {
+    await this.runExclusive("中止合并", async () => {
+      await this.mergeWorkflow.abortInterruptedMerge(entry);
+      vscode.window.showInformationMessage(`已中止未完成的合并并切回 ${entry.originalBranch}`);
+    });
+  }
+
+  /**
+   * 浏览合并历史，可查看提交、复制 SHA 或重新执行同样的合并
+   */
+  public async showMergeHistory(): Promise<void> {
+    const entries = await this.mergeHistory.list();
+    if (entries.length === 0) {
+      vscode.window.showInformationMessage("当前仓库暂无合并历史");
+      return;
+    }
+
+    const outcomeIcons: Record<MergeHistoryEntry["outcome"], string> = {
+      merged: "$(check)",
+      "already-merged": "$(pass)",
+      skipped: "$(debug-step-over)",
+      conflicted: "$(warning)",
+      failed: "$(error)",
+    };
+
+    const selected = await vscode.window.showQuickPick(
+      entries.map((entry) => ({
+        label: `${outcomeIcons[entry.outcome]} ${entry.sourceBranch} → ${entry.targetBranch}`,
+        description: [
+          entry.commitSha ? entry.commitSha.substring(0, 8) : "",
+          new Date(entry.timestamp).toLocaleString(),
+        ].filter(Boolean).join("  "),
+        detail: [
+          entry.strategy ? `策略: ${entry.strategy}` : "",
+          `耗时: ${(entry.durationMs / 1000).toFixed(1)}s`,
+          entry.conflictFiles.length > 0 ? `冲突文件: ${entry.conflictFiles.join(", ")}` : "",
+          entry.errorCode ? `错误码: ${entry.errorCode}` : "",
+          entry.message ?? "",
+        ].filter(Boolean).join(" | "),
+        entry,
+      })),
+      { placeHolder: "选择合并记录", matchOnDescription: true, matchOnDetail: true }
+    );
+
+    if (!selected) {
+      return;
+    }
+
+    const entry = selected.entry;
+    const actions = [
+      ...(entry.commitSha
+        ? [
+            { label: "$(git-commit) 查看提交", value: "view" },
+            { label: "$(copy) 复制 SHA", value: "copy" },
+          ]
+        : []),
+      { label: "$(debug-restart) 重新执行该合并", value: "rerun" },
+    ];
+    const action = await vscode.window.showQuickPick(actions, {
+      placeHolder: `${entry.sourceBranch} → ${entry.targetBranch}`,
+    });
+
+    switch (action?.value) {
+      case "view": {
+        const content = await this.gitOps.showCommit(entry.commitSha!);
+        const document = await vscode.workspace.openTextDocument({ content, language: "git-commit" });
+        await vscode.window.showTextDocument(document, { preview: true });
+        return;
+      }
+      case "copy":
+        await vscode.env.clipboard.writeText(entry.commitSha!);
+        vscode.window.showInformationMessage(`已复制 ${entry.commitSha}`);
+        return;
+      case "rerun":
+        await this.rerunMerge(entry);
+        return;
+      default:
+        return;
+    }
+  }
+
+  /**
+   * 重新将历史记录中的源分支合并到同一目标分支，切换分支在合并锁内完成
+   */
+  private async rerunMerge(entry: MergeHistoryEntry): Promise<void> {
+    const currentBranch = await this.gitOps.getCurrentBranch();
+    if (currentBranch !== entry.sourceBranch) {
+      const confirmed = await vscode.window.showWarningMessage(
+        `重新合并需要先切换到 ${entry.sourceBranch}，是否继续？`,
+        { modal: true },
+        "切换并合并"
+      );
+      if (confirmed !== "切换并合并") {
+        return;
+      }
+    }
+    await this.mergeFeatureBranch([entry.targetBranch], entry.sourceBranch);
+  }
+
+  /**
+   * 在合并锁与进度通知中执行操作，并统一处理错误提示
+   */
+  private async runExclusive(
+    action: string,
+    task: (progress: vscode.Progress<{ message?: string; increment?: number }>) => Promise<void>
+  ): Promise<void> {
     if (GitMergeService.isOperationInProgress) {
       vscode.window.showWarningMessage(
         "已有合并操作正在进行中，请等待完成后再试"
@@ -60,42 +343,31 @@ export class GitMergeService {
     }
 
     GitMergeService.isOperationInProgress = true;
-    let currentBranch = "";
-
     try {
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          title: "Git合并流程进行中",
-          cancellable: false
+          title: `Git${action}流程进行中`,
+          cancellable: true
         },
-        async (progress) => {
+        async (progress, token) => {
+          // 取消时终止正在执行的 Git 子进程，由合并流程按阶段回滚
+          this.gitOps.setCancellationToken(token);
           try {
-            progress.report({ message: "⚠️ 合并过程中请不要手动操作Git！准备合并环境...", increment: 0 });
-            currentBranch = await this.mergeWorkflow.prepareMergeEnvironment(progress);
-            
-            progress.report({ message: "请选择目标分支...", increment: 0 });
-            const targetBranch = await this.mergeWorkflow.gatherMergeParameters();
-            
-            progress.report({ message: `⚠️ 正在合并到 ${targetBranch}，请勿手动操作Git！`, increment: 10 });
-            await this.mergeWorkflow.executeMainMergeFlow(currentBranch, targetBranch, progress);
-            
-            progress.report({ message: "✅ 合并完成！", increment: 100 });
-            vscode.window.showInformationMessage(`✓ 合并流程完成！`);
-          } catch (error: any) {
-            await this.mergeWorkflow.handleMergeError(error, currentBranch);
-            throw error;
+            await task(progress);
+          } finally {
+            this.gitOps.setCancellationToken(undefined);
           }
         }
       );
     } catch (error: any) {
       const appError = toAppError(error, "未知错误");
       if (isUserCancelledError(appError)) {
-        vscode.window.showInformationMessage(`已取消合并: ${appError.message}`);
+        vscode.window.showInformationMessage(`已取消${action}: ${appError.message}`);
         return;
       }
       const stageText = appError.stage ? ` [${appError.stage}]` : "";
-      vscode.window.showErrorMessage(`合并失败${stageText}: ${appError.message}`);
+      vscode.window.showErrorMessage(`${action}失败${stageText}: ${appError.message}`);
     } finally {
       GitMergeService.isOperationInProgress = false;
     }
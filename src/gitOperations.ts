@@ -1,7 +1,21 @@
 import { exec, execFile } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
 import { promisify } from "util";
 import * as vscode from "vscode";
 import { AppError } from "./errors";
+import {
+  CommitSummary,
+  ConflictEntry,
+  ConflictSide,
+  ConflictType,
+  FileChangeSummary,
+  MergeCommitSummary,
+  MergeConflictPrediction,
+  MergeStrategy,
+} from "./mergeTypes";
+
+const CONFLICT_TYPES: ConflictType[] = ["UU", "AA", "DD", "AU", "UA", "DU", "UD"];
 
 const execAsync = promisify(exec);
 const execFileAsync = promisify(execFile);
@@ -11,19 +25,50 @@ const execFileAsync = promisify(execFile);
  */
 export class GitOperations {
   private workspaceRoot: string;
+  private cancellationToken?: vscode.CancellationToken;
 
-  constructor(workspaceRoot: string) {
+  constructor(workspaceRoot: string, cancellationToken?: vscode.CancellationToken) {
     this.workspaceRoot = workspaceRoot;
+    this.cancellationToken = cancellationToken;
+  }
+
+  /**
+   * 设置取消令牌，取消时会终止正在执行的 Git 子进程；回滚前应先清除
+   */
+  setCancellationToken(token: vscode.CancellationToken | undefined): void {
+    this.cancellationToken = token;
+  }
+
+  getCancellationToken(): vscode.CancellationToken | undefined {
+    return this.cancellationToken;
+  }
+
+  /**
+   * 将取消令牌转换为子进程可用的 AbortSignal，已取消时直接抛出
+   */
+  private bindCancellation(command: string): { signal?: AbortSignal; dispose: () => void } {
+    const token = this.cancellationToken;
+    if (!token) {
+      return { dispose: () => undefined };
+    }
+    if (token.isCancellationRequested) {
+      throw AppError.operationCancelled(`操作已取消，未执行: ${command}`, "execGit");
+    }
+    const controller = new AbortController();
+    const subscription = token.onCancellationRequested(() => controller.abort());
+    return { signal: controller.signal, dispose: () => subscription.dispose() };
   }
 
   /**
    * 执行Git命令并返回输出
    */
   async execGitCommand(command: string): Promise<string> {
+    const cancellation = this.bindCancellation(command);
     try {
       const { stdout, stderr } = await execAsync(command, {
         cwd: this.workspaceRoot,
         encoding: "utf8",
+        signal: cancellation.signal,
       });
 
       if (stderr && !stderr.includes("warning")) {
@@ -32,8 +77,13 @@ export class GitOperations {
 
       return stdout.trim();
     } catch (error: any) {
+      if (cancellation.signal?.aborted) {
+        throw AppError.operationCancelled(`操作已取消，已终止: ${command}`, "execGitCommand");
+      }
       const errorMessage = error.stderr || error.message || "未知错误";
       throw AppError.gitFailed(`Git命令执行失败: ${errorMessage}`, "execGitCommand", error);
+    } finally {
+      cancellation.dispose();
     }
   }
 
@@ -41,10 +91,13 @@ export class GitOperations {
    * 使用参数数组执行Git命令，避免命令注入和转义问题
    */
   async execGitArgs(args: string[]): Promise<string> {
+    const renderedArgs = args.join(" ");
+    const cancellation = this.bindCancellation(`git ${renderedArgs}`);
     try {
       const { stdout, stderr } = await execFileAsync("git", args, {
         cwd: this.workspaceRoot,
         encoding: "utf8",
+        signal: cancellation.signal,
       });
 
       if (stderr && !stderr.includes("warning")) {
@@ -53,13 +106,55 @@ export class GitOperations {
 
       return stdout.trim();
     } catch (error: any) {
+      if (cancellation.signal?.aborted) {
+        throw AppError.operationCancelled(`操作已取消，已终止: git ${renderedArgs}`, "execGitArgs");
+      }
       const errorMessage = error.stderr || error.message || "未知错误";
-      const renderedArgs = args.join(" ");
       throw AppError.gitFailed(
         `Git命令执行失败(git ${renderedArgs}): ${errorMessage}`,
         "execGitArgs",
         error
       );
+    } finally {
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * 执行Git命令并返回输出与退出码，非零退出码不视为异常
+   */
+  async execGitArgsWithExitCode(
+    args: string[]
+  ): Promise<{ stdout: string; stderr: string; exitCode: number }> {
+    const cancellation = this.bindCancellation(`git ${args.join(" ")}`);
+    try {
+      const { stdout, stderr } = await execFileAsync("git", args, {
+        cwd: this.workspaceRoot,
+        encoding: "utf8",
+        signal: cancellation.signal,
+      });
+      return { stdout: stdout.trim(), stderr: stderr.trim(), exitCode: 0 };
+    } catch (error: any) {
+      if (cancellation.signal?.aborted) {
+        throw AppError.operationCancelled(
+          `操作已取消，已终止: git ${args.join(" ")}`,
+          "execGitArgsWithExitCode"
+        );
+      }
+      if (typeof error?.code !== "number") {
+        throw AppError.gitFailed(
+          `Git命令执行失败(git ${args.join(" ")}): ${error?.message || "未知错误"}`,
+          "execGitArgsWithExitCode",
+          error
+        );
+      }
+      return {
+        stdout: String(error.stdout || "").trim(),
+        stderr: String(error.stderr || "").trim(),
+        exitCode: error.code,
+      };
+    } finally {
+      cancellation.dispose();
     }
   }
 
@@ -82,6 +177,90 @@ export class GitOperations {
     return await this.execGitArgs(["branch", "--show-current"]);
   }
 
+  /**
+   * 获取指定引用对应的提交哈希
+   */
+  async getCommitSha(ref: string = "HEAD"): Promise<string> {
+    return await this.execGitArgs(["rev-parse", ref]);
+  }
+
+  /**
+   * 获取提交详情及变更文件统计
+   */
+  async showCommit(sha: string): Promise<string> {
+    return await this.execGitArgs(["show", "--stat", "--format=fuller", sha]);
+  }
+
+  /**
+   * 获取提交列表（不含合并提交），range 为 git log 支持的范围，例如 a..b
+   */
+  async getCommitSummaries(range: string): Promise<CommitSummary[]> {
+    const output = await this.execGitArgs(["log", "--no-merges", "--format=%H%x09%an%x09%s", range]);
+    return output
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const [sha, author, ...subject] = line.split("\t");
+        return { sha, author, subject: subject.join("\t") };
+      });
+  }
+
+  /**
+   * 获取范围内的合并提交及其父提交
+   */
+  async getMergeCommits(range: string): Promise<MergeCommitSummary[]> {
+    const output = await this.execGitArgs(["log", "--merges", "--format=%H%x09%P%x09%an%x09%s", range]);
+    return output
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const [sha, parents, author, ...subject] = line.split("\t");
+        return { sha, parents: parents.split(" ").filter(Boolean), author, subject: subject.join("\t") };
+      });
+  }
+
+  /**
+   * 获取两个引用的共同祖先
+   */
+  async getMergeBase(first: string, second: string): Promise<string> {
+    return await this.execGitArgs(["merge-base", first, second]);
+  }
+
+  /**
+   * 获取两个提交之间变更文件的增删行数（不检测重命名）
+   */
+  async getDiffStat(from: string, to: string): Promise<FileChangeSummary[]> {
+    const output = await this.execGitArgs([
+      "-c",
+      "core.quotepath=false",
+      "diff",
+      "--numstat",
+      "--no-renames",
+      from,
+      to,
+    ]);
+    return output
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => {
+        const [additions, deletions, ...filePath] = line.split("\t");
+        const binary = additions === "-" && deletions === "-";
+        return {
+          path: filePath.join("\t"),
+          additions: binary ? 0 : Number(additions),
+          deletions: binary ? 0 : Number(deletions),
+          binary,
+        };
+      });
+  }
+
+  /**
+   * 读取文件在指定提交中的内容
+   */
+  async showFileAtRef(ref: string, filePath: string): Promise<string> {
+    return await this.execGitArgs(["show", `${ref}:${filePath}`]);
+  }
+
   /**
    * 检查是否有未提交的更改
    */
@@ -106,7 +285,7 @@ export class GitOperations {
       const status = await this.execGitArgs(["status", "--porcelain"]);
       return status.split("\n").some((line) => {
         const statusCode = line.substring(0, 2);
-        return ["UU", "AA", "DD", "AU", "UA", "DU", "UD"].includes(statusCode);
+        return CONFLICT_TYPES.includes(statusCode as ConflictType);
       });
     } catch {
       return false;
@@ -129,15 +308,227 @@ export class GitOperations {
     }
   }
 
+  /**
+   * 获取冲突文件及其冲突类型（UU、AA、DU 等）
+   */
+  async getConflictEntries(): Promise<ConflictEntry[]> {
+    try {
+      const status = await this.execGitArgs([
+        "-c",
+        "core.quotepath=false",
+        "status",
+        "--porcelain",
+        "--untracked-files=no",
+      ]);
+      return status
+        .split("\n")
+        .map((line) => ({ type: line.substring(0, 2) as ConflictType, path: line.substring(3).trim() }))
+        .filter((entry) => CONFLICT_TYPES.includes(entry.type) && entry.path.length > 0)
+        .map((entry) => ({ ...entry, path: entry.path.replace(/^"(.*)"$/, "$1") }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 读取冲突文件在索引中指定阶段的内容（1 共同祖先，2 当前分支，3 合入分支）
+   */
+  async showConflictStage(filePath: string, stage: 1 | 2 | 3): Promise<string> {
+    return await this.execGitArgs(["show", `:${stage}:${filePath}`]);
+  }
+
+  /**
+   * 采用冲突一方的版本解决冲突并暂存；该方已删除文件时删除文件
+   */
+  async resolveConflictWith(filePath: string, side: ConflictSide): Promise<void> {
+    const stages = await this.execGitArgs(["ls-files", "-u", "--", filePath]);
+    const stage = side === "ours" ? "2" : "3";
+    const sideExists = stages
+      .split("\n")
+      .some((line) => line.split(/\s+/)[2] === stage);
+
+    if (sideExists) {
+      await this.execGitArgs(["checkout", `--${side}`, "--", filePath]);
+      await this.stageFile(filePath);
+    } else {
+      await this.execGitArgs(["rm", "--quiet", "--", filePath]);
+    }
+  }
+
+  /**
+   * 仅在工作区写入冲突文件某一方的版本，索引中保留冲突状态；该方不存在时抛出错误
+   */
+  async checkoutConflictSide(filePath: string, side: ConflictSide): Promise<void> {
+    await this.execGitArgs(["checkout", `--${side}`, "--", filePath]);
+  }
+
+  /**
+   * 按索引中的冲突状态重新生成工作区文件的冲突标记
+   */
+  async restoreConflictMarkers(filePath: string): Promise<void> {
+    await this.execGitArgs(["checkout", "-m", "--", filePath]);
+  }
+
+  /**
+   * 以 union 方式合并冲突文件（保留双方的改动行）并暂存
+   */
+  async resolveConflictWithUnion(filePath: string): Promise<void> {
+    // 输出格式：<祖先> <当前> <合入>\t<路径>，缺失的阶段为 "."
+    const output = await this.execGitArgs(["checkout-index", "--stage=all", "--temp", "--", filePath]);
+    const stageFiles = output.split("\t")[0].split(" ");
+    const tempFiles = stageFiles
+      .filter((file) => file !== ".")
+      .map((file) => path.resolve(this.workspaceRoot, file));
+
+    try {
+      const [base, ours, theirs] = stageFiles.map((file) =>
+        file === "." ? undefined : path.resolve(this.workspaceRoot, file)
+      );
+      if (!ours || !theirs) {
+        throw AppError.gitFailed(`${filePath} 不是双方均修改的冲突，无法使用 union 合并`, "resolveConflictWithUnion");
+      }
+      const emptyBase = path.resolve(this.workspaceRoot, `${ours}.base`);
+      if (!base) {
+        fs.writeFileSync(emptyBase, "");
+        tempFiles.push(emptyBase);
+      }
+
+      await this.execGitArgs(["merge-file", "--union", ours, base ?? emptyBase, theirs]);
+      fs.copyFileSync(ours, path.resolve(this.workspaceRoot, filePath));
+    } finally {
+      for (const file of tempFiles) {
+        fs.rmSync(file, { force: true });
+      }
+    }
+    await this.stageFile(filePath);
+  }
+
+  /**
+   * 将文件标记为已解决（暂存）
+   */
+  async stageFile(filePath: string): Promise<void> {
+    await this.execGitArgs(["add", "--", filePath]);
+  }
+
+  /**
+   * 使用 Git 生成的默认信息提交进行中的合并
+   */
+  async commitMerge(): Promise<void> {
+    await this.execGitArgs(["commit", "--no-edit"]);
+  }
+
+  /**
+   * 检查本地是否存在指定引用（不访问远程）
+   */
+  async refExists(ref: string): Promise<boolean> {
+    const { exitCode } = await this.execGitArgsWithExitCode([
+      "rev-parse",
+      "--verify",
+      "--quiet",
+      `${ref}^{commit}`,
+    ]);
+    return exitCode === 0;
+  }
+
+  /**
+   * 检查 ancestor 是否已包含在 descendant 的历史中
+   */
+  async isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+    const { stderr, exitCode } = await this.execGitArgsWithExitCode([
+      "merge-base",
+      "--is-ancestor",
+      ancestor,
+      descendant,
+    ]);
+    if (exitCode === 0 || exitCode === 1) {
+      return exitCode === 0;
+    }
+    throw AppError.gitFailed(
+      `Git命令执行失败(git merge-base --is-ancestor ${ancestor} ${descendant}): ${stderr}`,
+      "isAncestor"
+    );
+  }
+
+  /**
+   * 检查 upstream 是否已包含 head 中所有提交的等价补丁（按 patch-id 比对，适用于变基后的提交）
+   */
+  async containsEquivalentPatches(upstream: string, head: string): Promise<boolean> {
+    const output = await this.execGitArgs(["cherry", upstream, head]);
+    return !output.split("\n").some((line) => line.startsWith("+"));
+  }
+
+  /**
+   * 获取提交对应的树对象哈希
+   */
+  async getTreeSha(ref: string): Promise<string> {
+    return await this.execGitArgs(["rev-parse", `${ref}^{tree}`]);
+  }
+
+  /**
+   * 统计范围内的提交数量，参数为 git rev-list 支持的范围，例如 a..b 或 b ^a ^c
+   */
+  async countCommits(...revisions: string[]): Promise<number> {
+    const output = await this.execGitArgs(["rev-list", "--count", ...revisions]);
+    return Number.parseInt(output, 10) || 0;
+  }
+
+  /**
+   * 获取已配置的远程名称列表
+   */
+  async getRemotes(): Promise<string[]> {
+    const output = await this.execGitArgs(["remote"]);
+    return output.split("\n").map((line) => line.trim()).filter(Boolean);
+  }
+
+  /**
+   * 读取分支级配置 branch.<name>.<key>，未设置时返回 undefined
+   */
+  private async getBranchConfig(branchName: string, key: string): Promise<string | undefined> {
+    const { stdout, exitCode } = await this.execGitArgsWithExitCode([
+      "config",
+      "--get",
+      `branch.${branchName}.${key}`,
+    ]);
+    return exitCode === 0 && stdout.trim() ? stdout.trim() : undefined;
+  }
+
+  /**
+   * 读取创建分支时记录的基础分支（保存在 branch.<name>.workflowBase 中）
+   */
+  async getRecordedBaseBranch(branchName: string): Promise<string | undefined> {
+    return await this.getBranchConfig(branchName, "workflowBase");
+  }
+
+  /**
+   * 记录分支的基础分支，供后续同步时使用
+   */
+  async recordBaseBranch(branchName: string, baseBranch: string): Promise<void> {
+    await this.execGitArgs(["config", `branch.${branchName}.workflowBase`, baseBranch]);
+  }
+
+  /**
+   * 读取创建分支时记录的工单号（保存在 branch.<name>.workflowTicket 中）
+   */
+  async getRecordedTicket(branchName: string): Promise<string | undefined> {
+    return await this.getBranchConfig(branchName, "workflowTicket");
+  }
+
+  /**
+   * 记录分支关联的工单号，供合并流程生成提交信息时使用
+   */
+  async recordTicket(branchName: string, ticket: string): Promise<void> {
+    await this.execGitArgs(["config", `branch.${branchName}.workflowTicket`, ticket]);
+  }
+
   /**
    * 检查远程分支是否存在
    */
-  async checkRemoteBranchExists(branchName: string): Promise<boolean> {
+  async checkRemoteBranchExists(branchName: string, remote: string = "origin"): Promise<boolean> {
     try {
       const remoteBranch = await this.execGitArgs([
         "ls-remote",
         "--heads",
-        "origin",
+        remote,
         branchName,
       ]);
       return !!remoteBranch;
@@ -154,16 +545,35 @@ export class GitOperations {
   }
 
   /**
-   * 推送分支到远程
+   * 推送分支到远程，远程已有新提交（非快进）被拒绝时抛出 PUSH_REJECTED
+   * forceWithLease 用于推送变基后的分支，远程在上次获取后有新提交时同样会被拒绝
    */
   async pushBranch(
     branchName: string,
-    setUpstream: boolean = false
+    setUpstream: boolean = false,
+    remote: string = "origin",
+    forceWithLease: boolean = false
   ): Promise<void> {
-    const args = setUpstream
-      ? ["push", "-u", "origin", branchName]
-      : ["push", "origin", branchName];
-    await this.execGitArgs(args);
+    const args = [
+      "push",
+      ...(setUpstream ? ["-u"] : []),
+      ...(forceWithLease ? ["--force-with-lease"] : []),
+      remote,
+      branchName,
+    ];
+    try {
+      await this.execGitArgs(args);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/non-fast-forward|fetch first|stale info|\[rejected\]|Updates were rejected/i.test(message)) {
+        throw new AppError(
+          `推送 ${branchName} 到 ${remote} 被拒绝，远程分支已有新的提交`,
+          "PUSH_REJECTED",
+          { stage: "pushBranch", cause: error }
+        );
+      }
+      throw error;
+    }
   }
 
   /**
@@ -196,23 +606,27 @@ export class GitOperations {
   }
 
   /**
-   * 切换分支（如果本地不存在则从远程创建）
+   * 切换分支（如果本地不存在则从指定远程创建）
    */
-  async checkoutBranch(branchName: string, baseRef?: string): Promise<void> {
+  async checkoutBranch(
+    branchName: string,
+    baseRef?: string,
+    remote: string = "origin"
+  ): Promise<void> {
     const localExists = await this.checkLocalBranchExists(branchName);
     
     if (localExists) {
       await this.execGitArgs(["checkout", branchName]);
     } else {
       // 检查远程是否存在
-      const remoteExists = await this.checkRemoteBranchExists(branchName);
+      const remoteExists = await this.checkRemoteBranchExists(branchName, remote);
       if (remoteExists) {
         // 从远程创建本地分支并切换
         await this.execGitArgs([
           "checkout",
           "-b",
           branchName,
-          `origin/${branchName}`,
+          `${remote}/${branchName}`,
         ]);
       } else {
         // 只有显式提供 baseRef 时才允许创建新分支，避免误从当前分支派生
@@ -231,15 +645,111 @@ export class GitOperations {
   /**
    * 拉取远程分支
    */
-  async pullBranch(branchName: string): Promise<void> {
-    await this.execGitArgs(["pull", "origin", branchName]);
+  async pullBranch(branchName: string, remote: string = "origin"): Promise<void> {
+    await this.execGitArgs(["pull", remote, branchName]);
+  }
+
+  /**
+   * 按指定策略合并分支（rebase 策略请使用 rebaseOnto + fastForwardTo）
+   */
+  async mergeBranch(
+    sourceBranch: string,
+    strategy: Exclude<MergeStrategy, "rebase"> = "ff"
+  ): Promise<void> {
+    switch (strategy) {
+      case "no-ff":
+        await this.execGitArgs(["merge", "--no-ff", "--no-edit", sourceBranch]);
+        return;
+      case "squash":
+        await this.execGitArgs(["merge", "--squash", sourceBranch]);
+        return;
+      case "ff":
+      default:
+        await this.execGitArgs(["merge", "--ff", "--no-edit", sourceBranch]);
+    }
+  }
+
+  /**
+   * 以分离头指针方式检出指定引用，避免改写本地分支
+   */
+  async checkoutDetached(ref: string): Promise<void> {
+    await this.execGitArgs(["checkout", "--detach", ref]);
+  }
+
+  /**
+   * 将当前 HEAD 变基到指定上游
+   */
+  async rebaseOnto(upstream: string): Promise<void> {
+    await this.execGitArgs(["rebase", upstream]);
+  }
+
+  /**
+   * 冲突解决后继续变基（不打开编辑器）
+   */
+  async continueRebase(): Promise<void> {
+    await this.execGitArgs(["-c", "core.editor=true", "rebase", "--continue"]);
+  }
+
+  /**
+   * 检查是否存在进行中的变基
+   */
+  async isRebaseInProgress(): Promise<boolean> {
+    for (const name of ["rebase-merge", "rebase-apply"]) {
+      const gitPath = await this.execGitArgs(["rev-parse", "--git-path", name]);
+      if (fs.existsSync(path.resolve(this.workspaceRoot, gitPath))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 将当前分支强制重置到指定提交，丢弃工作区与暂存区的改动
+   */
+  async resetHard(ref: string): Promise<void> {
+    await this.execGitArgs(["reset", "--hard", ref]);
   }
 
   /**
-   * 合并分支
+   * 仅允许快进地将当前分支移动到指定提交
    */
-  async mergeBranch(sourceBranch: string): Promise<void> {
-    await this.execGitArgs(["merge", sourceBranch]);
+  async fastForwardTo(ref: string): Promise<void> {
+    await this.execGitArgs(["merge", "--ff-only", ref]);
+  }
+
+  /**
+   * 预测合并冲突：在不检出、不修改工作区的情况下模拟 source 合并到 target
+   */
+  async predictMergeConflicts(
+    sourceRef: string,
+    targetRef: string
+  ): Promise<MergeConflictPrediction> {
+    const { stdout, stderr, exitCode } = await this.execGitArgsWithExitCode([
+      "merge-tree",
+      "--write-tree",
+      "--name-only",
+      "--no-messages",
+      targetRef,
+      sourceRef,
+    ]);
+
+    // 退出码 0 表示可干净合并，1 表示存在冲突，其他值表示命令不可用或执行失败
+    if (exitCode !== 0 && exitCode !== 1) {
+      console.warn("合并冲突预测不可用:", stderr);
+      return { supported: false, hasConflicts: false, conflictFiles: [] };
+    }
+
+    const [mergedTree, ...files] = stdout.split("\n");
+    const conflictFiles = Array.from(
+      new Set(files.map((file) => file.trim()).filter((file) => file.length > 0))
+    );
+
+    return {
+      supported: true,
+      hasConflicts: exitCode === 1,
+      conflictFiles,
+      mergedTree: mergedTree?.trim() || undefined,
+    };
   }
 
   /**
@@ -265,18 +775,115 @@ export class GitOperations {
   }
 
   /**
-   * 中止合并
+   * 检查是否存在进行中的合并（MERGE_HEAD 存在）
+   */
+  async isMergeInProgress(): Promise<boolean> {
+    try {
+      await this.execGitArgs(["rev-parse", "-q", "--verify", "MERGE_HEAD"]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 获取进行中合并的来源分支名，无法对应到本地分支时返回短 SHA
+   */
+  async getMergeHeadName(): Promise<string> {
+    const name = (
+      await this.execGitArgs(["name-rev", "--name-only", "--refs=refs/heads/*", "MERGE_HEAD"])
+    ).trim();
+    if (name && name !== "undefined" && !/[~^]/.test(name)) {
+      return name;
+    }
+    return (await this.execGitArgs(["rev-parse", "--short", "MERGE_HEAD"])).trim();
+  }
+
+  /**
+   * 将未提交的更改（包含未跟踪文件）存入带标签的 stash
+   */
+  async stashChanges(label: string): Promise<void> {
+    await this.execGitArgs(["stash", "push", "--include-untracked", "-m", label]);
+  }
+
+  /**
+   * 根据标签查找 stash 引用（如 stash@{0}），找不到时返回 undefined
+   */
+  async findStashRef(label: string): Promise<string | undefined> {
+    const output = await this.execGitArgs(["stash", "list", "--format=%gd%x09%gs"]);
+    for (const line of output.split("\n")) {
+      const [ref, ...subjectParts] = line.split("\t");
+      if (subjectParts.join("\t").endsWith(label)) {
+        return ref;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 恢复并删除指定的 stash
+   */
+  async popStash(ref: string): Promise<void> {
+    await this.execGitArgs(["stash", "pop", ref]);
+  }
+
+  /**
+   * 中止合并（自动识别普通合并、squash 合并与变基）
    */
   async abortMerge(): Promise<void> {
-    await this.execGitArgs(["merge", "--abort"]);
+    if (await this.isRebaseInProgress()) {
+      await this.execGitArgs(["rebase", "--abort"]);
+      return;
+    }
+    if (await this.isMergeInProgress()) {
+      await this.execGitArgs(["merge", "--abort"]);
+      return;
+    }
+    // squash 合并不会产生 MERGE_HEAD，只能通过重置索引与工作区回滚
+    await this.execGitArgs(["reset", "--merge"]);
+  }
+
+  /**
+   * 获取仓库公共 Git 目录的绝对路径（在工作树中同样指向主仓库的 .git）
+   */
+  async getGitCommonDir(): Promise<string> {
+    const commonDir = await this.execGitArgs(["rev-parse", "--git-common-dir"]);
+    return path.resolve(this.workspaceRoot, commonDir);
+  }
+
+  /**
+   * 在 Git 目录下创建用于合并的临时工作树（分离头指针），返回工作树路径
+   */
+  async addTemporaryWorktree(name: string): Promise<string> {
+    const commonDir = await this.getGitCommonDir();
+    const safeName = name.replace(/[^a-zA-Z0-9._-]/g, "_");
+    const worktreePath = path.join(
+      commonDir,
+      "git-workflow-helper",
+      "worktrees",
+      `${safeName}-${Date.now()}`
+    );
+    await this.execGitArgs(["worktree", "add", "--detach", worktreePath]);
+    return worktreePath;
+  }
+
+  /**
+   * 删除工作树，失败时清理失效的工作树记录
+   */
+  async removeWorktree(worktreePath: string): Promise<void> {
+    try {
+      await this.execGitArgs(["worktree", "remove", "--force", worktreePath]);
+    } finally {
+      await this.execGitArgs(["worktree", "prune"]).catch(() => undefined);
+    }
   }
 
   /**
    * 确保分支有正确的上游关联
    */
-  async ensureBranchUpstream(branchName: string): Promise<void> {
+  async ensureBranchUpstream(branchName: string, remote: string = "origin"): Promise<void> {
     try {
-      const remoteExists = await this.checkRemoteBranchExists(branchName);
+      const remoteExists = await this.checkRemoteBranchExists(branchName, remote);
       if (!remoteExists) {
         return;
       }
@@ -287,20 +894,20 @@ export class GitOperations {
         `${branchName}@{upstream}`,
       ]).catch(() => null);
       
-      if (upstream !== `origin/${branchName}`) {
+      if (upstream !== `${remote}/${branchName}`) {
         await this.execGitArgs([
           "branch",
-          `--set-upstream-to=origin/${branchName}`,
+          `--set-upstream-to=${remote}/${branchName}`,
           branchName,
         ]);
       }
     } catch (error: any) {
       if (error.message?.includes("no upstream")) {
-        const remoteExists = await this.checkRemoteBranchExists(branchName);
+        const remoteExists = await this.checkRemoteBranchExists(branchName, remote);
         if (remoteExists) {
           await this.execGitArgs([
             "branch",
-            `--set-upstream-to=origin/${branchName}`,
+            `--set-upstream-to=${remote}/${branchName}`,
             branchName,
           ]);
         }
@@ -0,0 +1,94 @@
+import * as fs from "fs";
+import * as path from "path";
+import { toAppError } from "./errors";
+import { GitOperations } from "./gitOperations";
+import { MergeHistoryEntry, MergeTargetResult } from "./mergeTypes";
+
+/**
+ * 合并历史记录 - 按仓库将每次合并的结果保存在 .git 目录中
+ */
+export class MergeHistory {
+  private gitOps: GitOperations;
+  private static readonly fileName = "merge-history.json";
+  private static readonly maxEntries = 200;
+
+  constructor(gitOps: GitOperations) {
+    this.gitOps = gitOps;
+  }
+
+  private async getHistoryPath(): Promise<string> {
+    const commonDir = await this.gitOps.getGitCommonDir();
+    return path.join(commonDir, "git-workflow-helper", MergeHistory.fileName);
+  }
+
+  /**
+   * 读取合并历史（按时间倒序）
+   */
+  async list(): Promise<MergeHistoryEntry[]> {
+    try {
+      const content = await fs.promises.readFile(await this.getHistoryPath(), "utf8");
+      const entries = JSON.parse(content);
+      return Array.isArray(entries) ? (entries as MergeHistoryEntry[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 记录一次合并流程中每个目标分支的结果（写入失败不影响合并流程本身）
+   */
+  async record(sourceBranch: string, results: MergeTargetResult[]): Promise<void> {
+    if (results.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const newEntries: MergeHistoryEntry[] = results.map((result, index) => ({
+      id: `${now}-${index}`,
+      sourceBranch,
+      targetBranch: result.target,
+      commitSha: result.commitSha,
+      strategy: result.strategy,
+      conflictFiles: result.conflictFiles ?? [],
+      outcome: result.status,
+      message: result.message,
+      errorCode: result.errorCode,
+      durationMs: result.durationMs ?? 0,
+      timestamp: new Date(now).toISOString(),
+    }));
+
+    try {
+      const entries = [...newEntries.reverse(), ...(await this.list())].slice(
+        0,
+        MergeHistory.maxEntries
+      );
+      const historyPath = await this.getHistoryPath();
+      await fs.promises.mkdir(path.dirname(historyPath), { recursive: true });
+      await fs.promises.writeFile(historyPath, JSON.stringify(entries, null, 2), "utf8");
+    } catch (error) {
+      console.warn("写入合并历史失败:", error);
+    }
+  }
+
+  /**
+   * 记录在得到各目标结果之前就终止的合并流程（如保护规则拦截、取消确认），每个目标附带错误码；
+   * 冲突未解决的流程仍可恢复，等流程结束后再记录
+   */
+  async recordFailure(sourceBranch: string, targets: string[], error: unknown): Promise<void> {
+    const appError = toAppError(error);
+    if (appError.code === "MERGE_CONFLICT") {
+      return;
+    }
+
+    const cancelled = appError.code === "USER_CANCELLED" || appError.code === "OPERATION_CANCELLED";
+    await this.record(
+      sourceBranch,
+      targets.map((target) => ({
+        target,
+        status: cancelled ? "skipped" : "failed",
+        message: appError.message,
+        errorCode: appError.code,
+      }))
+    );
+  }
+}
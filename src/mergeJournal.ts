@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as path from "path";
+import { GitOperations } from "./gitOperations";
+
+export type MergeJournalStage = "merging" | "resolving-conflicts" | "returning";
+
+export interface MergeJournalEntry {
+  sourceBranch: string;
+  originalBranch: string;
+  targetBranch: string;
+  targets: string[];
+  completedTargets: string[];
+  stage: MergeJournalStage;
+  worktreePath?: string;
+  /** 合并前存入 stash 的未提交更改标签，切回原分支后需恢复 */
+  stashLabel?: string;
+  /** 已通过输入分支名确认的受保护目标分支，恢复时无需再次确认 */
+  confirmedTargets?: string[];
+  /** 已输入的 squash 提交信息（按目标分支），恢复时直接使用 */
+  squashMessages?: Record<string, string>;
+  startedAt: string;
+}
+
+/**
+ * 合并状态日志 - 将进行中的合并流程记录到 .git 目录，用于重载或崩溃后恢复
+ */
+export class MergeJournal {
+  private gitOps: GitOperations;
+  private static readonly fileName = "merge-journal.json";
+
+  constructor(gitOps: GitOperations) {
+    this.gitOps = gitOps;
+  }
+
+  private async getJournalPath(): Promise<string> {
+    const commonDir = await this.gitOps.getGitCommonDir();
+    return path.join(commonDir, "git-workflow-helper", MergeJournal.fileName);
+  }
+
+  /**
+   * 读取未完成的合并记录，不存在或内容损坏时返回 undefined
+   */
+  async load(): Promise<MergeJournalEntry | undefined> {
+    try {
+      const content = await fs.promises.readFile(await this.getJournalPath(), "utf8");
+      const entry = JSON.parse(content) as MergeJournalEntry;
+      if (!entry?.sourceBranch || !entry?.originalBranch || !Array.isArray(entry.targets)) {
+        return undefined;
+      }
+      return { ...entry, completedTargets: entry.completedTargets ?? [] };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 写入合并记录（写入失败不影响合并流程本身）
+   */
+  async save(entry: MergeJournalEntry): Promise<void> {
+    try {
+      const journalPath = await this.getJournalPath();
+      await fs.promises.mkdir(path.dirname(journalPath), { recursive: true });
+      await fs.promises.writeFile(journalPath, JSON.stringify(entry, null, 2), "utf8");
+    } catch (error) {
+      console.warn("写入合并状态日志失败:", error);
+    }
+  }
+
+  /**
+   * 更新合并记录的部分字段
+   */
+  async update(patch: Partial<MergeJournalEntry>): Promise<void> {
+    const current = await this.load();
+    if (!current) {
+      return;
+    }
+    await this.save({ ...current, ...patch });
+  }
+
+  /**
+   * 删除合并记录
+   */
+  async clear(): Promise<void> {
+    try {
+      await fs.promises.rm(await this.getJournalPath(), { force: true });
+    } catch (error) {
+      console.warn("删除合并状态日志失败:", error);
+    }
+  }
+}
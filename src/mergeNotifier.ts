@@ -0,0 +1,195 @@
+import * as http from "http";
+import * as https from "https";
+import * as vscode from "vscode";
+import { GitOperations } from "./gitOperations";
+import { MergeTargetConfigManager, TargetWebhook } from "./mergeTargetConfigManager";
+import { CommitSummary, MergeTargetResult } from "./mergeTypes";
+
+interface WebhookContext {
+  source: string;
+  target: string;
+  author: string;
+  sha: string;
+  shortSha: string;
+  commits: CommitSummary[];
+}
+
+const DEFAULT_WEBHOOK_BODY = {
+  text: "{author} 已将 {source} 合并到 {target}（{shortSha}）\n{commits}",
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+const RETRY_DELAY_MS = 2000;
+
+export interface MergeNotifierOptions {
+  /** 记录失败信息的输出通道，默认使用 Webhook 输出面板 */
+  outputChannel?: Pick<vscode.OutputChannel, "appendLine">;
+  /** 重试间隔基数（毫秒），第 N 次重试等待 N 倍 */
+  retryDelayMs?: number;
+}
+
+/**
+ * 合并通知 - 合并成功后按目标分支配置调用 Webhook，失败只记录日志，不影响合并结果
+ */
+export class MergeNotifier {
+  private static outputChannel: vscode.OutputChannel | undefined;
+  private gitOps: GitOperations;
+  private mergeTargetConfigManager: MergeTargetConfigManager;
+  private options: MergeNotifierOptions;
+
+  constructor(
+    gitOps: GitOperations,
+    mergeTargetConfigManager: MergeTargetConfigManager,
+    options: MergeNotifierOptions = {}
+  ) {
+    this.gitOps = gitOps;
+    this.mergeTargetConfigManager = mergeTargetConfigManager;
+    this.options = options;
+  }
+
+  private static getOutputChannel(): vscode.OutputChannel {
+    if (!MergeNotifier.outputChannel) {
+      MergeNotifier.outputChannel = vscode.window.createOutputChannel("Git工作流助手 - Webhook");
+    }
+    return MergeNotifier.outputChannel;
+  }
+
+  /**
+   * 通知所有合并成功的目标分支（调用方无需等待）
+   */
+  async notify(sourceBranch: string, results: MergeTargetResult[]): Promise<void> {
+    const merged = results.filter(
+      (result) => result.status === "merged" && result.commitSha
+    );
+
+    for (const result of merged) {
+      const webhooks = this.mergeTargetConfigManager.getWebhooks(result.target);
+      if (webhooks.length === 0) {
+        continue;
+      }
+
+      try {
+        const context = await this.buildContext(sourceBranch, result);
+        await Promise.all(webhooks.map((webhook) => this.send(webhook, context)));
+      } catch (error) {
+        this.log(`准备 ${result.target} 的 Webhook 通知失败: ${this.describeError(error)}`);
+      }
+    }
+  }
+
+  private async buildContext(
+    sourceBranch: string,
+    result: MergeTargetResult
+  ): Promise<WebhookContext> {
+    const sha = result.commitSha!;
+    const author = await this.gitOps
+      .execGitArgs(["config", "user.name"])
+      .catch(() => "");
+    const commits = result.baseSha
+      ? await this.gitOps.getCommitSummaries(`${result.baseSha}..${sha}`).catch(() => [])
+      : [];
+
+    return {
+      source: sourceBranch,
+      target: result.target,
+      author: author || "unknown",
+      sha,
+      shortSha: sha.substring(0, 8),
+      commits,
+    };
+  }
+
+  /**
+   * 渲染请求体模板：字符串中的占位符会被替换，值恰好为 "{commits}" 时替换为提交对象数组
+   */
+  static renderTemplate(template: unknown, context: WebhookContext): unknown {
+    if (typeof template === "string") {
+      if (template === "{commits}") {
+        return context.commits;
+      }
+      return template.replace(/\{(source|target|author|sha|shortSha|commits)\}/g, (_, key) => {
+        if (key === "commits") {
+          return context.commits
+            .map((commit) => `- ${commit.subject} (${commit.sha.substring(0, 8)}, ${commit.author})`)
+            .join("\n");
+        }
+        return String(context[key as keyof Omit<WebhookContext, "commits">]);
+      });
+    }
+    if (Array.isArray(template)) {
+      return template.map((item) => MergeNotifier.renderTemplate(item, context));
+    }
+    if (template && typeof template === "object") {
+      return Object.fromEntries(
+        Object.entries(template).map(([key, value]) => [
+          key,
+          MergeNotifier.renderTemplate(value, context),
+        ])
+      );
+    }
+    return template;
+  }
+
+  private async send(webhook: TargetWebhook, context: WebhookContext): Promise<void> {
+    const body = JSON.stringify(
+      MergeNotifier.renderTemplate(webhook.body ?? DEFAULT_WEBHOOK_BODY, context)
+    );
+
+    for (let attempt = 0; attempt <= webhook.retries; attempt++) {
+      try {
+        await this.post(webhook, body);
+        return;
+      } catch (error) {
+        this.log(
+          `通知 ${context.target} 的 Webhook 失败（第 ${attempt + 1}/${webhook.retries + 1} 次）` +
+            ` ${webhook.method} ${webhook.url}: ${this.describeError(error)}`
+        );
+        if (attempt < webhook.retries) {
+          const delay = this.options.retryDelayMs ?? RETRY_DELAY_MS;
+          await new Promise((resolve) => setTimeout(resolve, delay * (attempt + 1)));
+        }
+      }
+    }
+  }
+
+  private post(webhook: TargetWebhook, body: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const url = new URL(webhook.url);
+      const client = url.protocol === "https:" ? https : http;
+      const request = client.request(
+        url,
+        {
+          method: webhook.method,
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(body),
+            ...webhook.headers,
+          },
+          timeout: REQUEST_TIMEOUT_MS,
+        },
+        (response) => {
+          response.resume();
+          const status = response.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolve();
+          } else {
+            reject(new Error(`HTTP ${status}`));
+          }
+        }
+      );
+      request.on("timeout", () => request.destroy(new Error(`请求超时（${REQUEST_TIMEOUT_MS} 毫秒）`)));
+      request.on("error", reject);
+      request.end(body);
+    });
+  }
+
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  private log(message: string): void {
+    console.warn(message);
+    const outputChannel = this.options.outputChannel ?? MergeNotifier.getOutputChannel();
+    outputChannel.appendLine(`[${new Date().toLocaleString()}] ${message}`);
+  }
+}
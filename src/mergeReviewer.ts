@@ -0,0 +1,179 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { GitOperations } from "./gitOperations";
+import { CommitSummary, FileChangeSummary, MergeCommitSummary } from "./mergeTypes";
+
+export type MergeReviewDecision = "continue" | "skip" | "cancel";
+
+interface ForeignMerge {
+  commit: MergeCommitSummary;
+  /** 该合并提交额外带入、目标分支尚未包含的提交数量 */
+  broughtCount: number;
+}
+
+interface ReviewItem extends vscode.QuickPickItem {
+  decision?: MergeReviewDecision;
+  commit?: CommitSummary;
+  file?: FileChangeSummary;
+}
+
+const REVIEW_REF_SCHEME = "git-workflow-ref";
+
+/**
+ * 合并预览 - 合并前列出将进入目标分支的提交与变更文件，并可逐个文件查看差异
+ */
+export class MergeReviewer {
+  private gitOps: GitOperations;
+
+  constructor(gitOps: GitOperations) {
+    this.gitOps = gitOps;
+  }
+
+  /**
+   * 注册读取指定提交中文件内容的内容提供器，供差异视图使用
+   */
+  static register(context: vscode.ExtensionContext): void {
+    context.subscriptions.push(
+      vscode.workspace.registerTextDocumentContentProvider(REVIEW_REF_SCHEME, {
+        provideTextDocumentContent: async (uri) => {
+          const query = new URLSearchParams(uri.query);
+          try {
+            return await new GitOperations(query.get("root") || "").showFileAtRef(
+              query.get("ref") || "",
+              uri.path.replace(/^\//, "")
+            );
+          } catch {
+            // 新增或删除的文件在另一侧不存在
+            return "";
+          }
+        },
+      })
+    );
+  }
+
+  /**
+   * 展示 targetRef..sourceBranch 的提交与变更文件，由用户决定继续、跳过或取消
+   */
+  async review(
+    sourceBranch: string,
+    targetBranch: string,
+    targetRef: string,
+    allowSkip: boolean
+  ): Promise<MergeReviewDecision> {
+    const range = `${targetRef}..${sourceBranch}`;
+    const commits = await this.gitOps.getCommitSummaries(range);
+    const mergeBase = await this.gitOps.getMergeBase(targetRef, sourceBranch);
+    const sourceSha = await this.gitOps.getCommitSha(sourceBranch);
+    const files = await this.gitOps.getDiffStat(mergeBase, sourceSha);
+    const foreignMerges = await this.findForeignMerges(range, targetRef);
+
+    const additions = files.reduce((sum, file) => sum + file.additions, 0);
+    const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+    const items: ReviewItem[] = [
+      { label: `$(check) 继续合并到 ${targetBranch}`, decision: "continue" },
+      ...(allowSkip ? [{ label: `$(debug-step-over) 跳过 ${targetBranch}`, decision: "skip" as const }] : []),
+      { label: "$(close) 取消合并", decision: "cancel" },
+    ];
+
+    if (foreignMerges.length > 0) {
+      items.push({ label: "⚠️ 包含其他分支的合并提交", kind: vscode.QuickPickItemKind.Separator });
+      items.push(
+        ...foreignMerges.map(({ commit, broughtCount }) => ({
+          label: `$(warning) ${commit.sha.substring(0, 8)} ${commit.subject}`,
+          description: commit.author,
+          detail: `将额外带入 ${broughtCount} 个 ${targetBranch} 尚未包含的提交`,
+          commit,
+        }))
+      );
+    }
+
+    items.push({ label: `提交（${commits.length}）`, kind: vscode.QuickPickItemKind.Separator });
+    items.push(
+      ...commits.map((commit) => ({
+        label: `$(git-commit) ${commit.sha.substring(0, 8)} ${commit.subject}`,
+        description: commit.author,
+        commit,
+      }))
+    );
+
+    items.push({
+      label: `变更文件（${files.length}，+${additions} -${deletions}）`,
+      kind: vscode.QuickPickItemKind.Separator,
+    });
+    items.push(
+      ...files.map((file) => ({
+        label: `$(diff) ${file.path}`,
+        description: file.binary ? "二进制文件" : `+${file.additions} -${file.deletions}`,
+        file,
+      }))
+    );
+
+    const warning = foreignMerges.length > 0 ? `⚠️ 含 ${foreignMerges.length} 个其他分支的合并提交，` : "";
+    for (;;) {
+      const selected = await vscode.window.showQuickPick(items, {
+        title: `合并预览：${sourceBranch} → ${targetBranch}`,
+        placeHolder: `${warning}选择文件查看差异、选择提交查看详情，或确认继续合并`,
+        matchOnDescription: true,
+        ignoreFocusOut: true,
+      });
+
+      if (!selected) {
+        return "cancel";
+      }
+      if (selected.decision) {
+        return selected.decision;
+      }
+      if (selected.file) {
+        await this.showFileDiff(selected.file, mergeBase, sourceSha, targetBranch, sourceBranch);
+      } else if (selected.commit) {
+        const content = await this.gitOps.showCommit(selected.commit.sha);
+        const document = await vscode.workspace.openTextDocument({ content, language: "git-commit" });
+        await vscode.window.showTextDocument(document, { preview: true });
+      }
+    }
+  }
+
+  /**
+   * 找出会一并带入其他分支提交的合并提交（非第一父提交中存在目标分支未包含的提交）
+   */
+  private async findForeignMerges(range: string, targetRef: string): Promise<ForeignMerge[]> {
+    const foreignMerges: ForeignMerge[] = [];
+    for (const commit of await this.gitOps.getMergeCommits(range)) {
+      const [firstParent, ...mergedParents] = commit.parents;
+      let broughtCount = 0;
+      for (const parent of mergedParents) {
+        broughtCount += await this.gitOps.countCommits(parent, `^${firstParent}`, `^${targetRef}`);
+      }
+      if (broughtCount > 0) {
+        foreignMerges.push({ commit, broughtCount });
+      }
+    }
+    return foreignMerges;
+  }
+
+  /**
+   * 对比文件在分叉点与功能分支中的版本
+   */
+  private async showFileDiff(
+    file: FileChangeSummary,
+    mergeBase: string,
+    sourceSha: string,
+    targetBranch: string,
+    sourceBranch: string
+  ): Promise<void> {
+    const refUri = (ref: string) =>
+      vscode.Uri.from({
+        scheme: REVIEW_REF_SCHEME,
+        path: `/${file.path}`,
+        query: new URLSearchParams({ root: this.gitOps.getWorkspaceRoot(), ref }).toString(),
+      });
+
+    await vscode.commands.executeCommand(
+      "vscode.diff",
+      refUri(mergeBase),
+      refUri(sourceSha),
+      `${path.basename(file.path)}（${targetBranch} ↔ ${sourceBranch}）`,
+      { preview: true }
+    );
+  }
+}
@@ -1,10 +1,81 @@
 import * as vscode from "vscode";
+import { MergeStrategy } from "./mergeTypes";
+
+export interface TargetTimeWindow {
+  /** 允许的星期（0 表示周日），为空表示每天 */
+  days?: number[];
+  /** 开始时间，格式 HH:mm */
+  start: string;
+  /** 结束时间，格式 HH:mm，早于开始时间表示跨天 */
+  end: string;
+}
+
+export interface TargetBranchProtection {
+  /** 合并前需要手动输入分支名确认 */
+  requireTypedConfirmation: boolean;
+  /** 允许合并到该分支的源分支前缀，为空表示不限制 */
+  allowedSourcePrefixes: string[];
+  /** 允许合并的时间窗口，为空表示不限制 */
+  allowedTimeWindows: TargetTimeWindow[];
+  /** 禁止插件直接推送到该分支 */
+  blockDirectPush: boolean;
+}
+
+export interface TargetVerifyCommand {
+  /** 在合并后的工作区中通过 shell 执行的命令 */
+  command: string;
+  /** 超时时间（秒） */
+  timeoutSeconds: number;
+}
+
+export interface TargetWebhook {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /** 请求体模板（JSON），未配置时使用默认模板 */
+  body?: unknown;
+  /** 失败后的重试次数 */
+  retries: number;
+}
 
 export interface TargetBranchConfig {
   name: string;
   description: string;
+  mergeStrategy: MergeStrategy;
+  protection: TargetBranchProtection;
+  /** 推送前需要通过的校验命令 */
+  verifyCommands: TargetVerifyCommand[];
+  /** 合并成功后通知的 Webhook */
+  webhooks: TargetWebhook[];
+  /** 目标分支所在的远程，未配置时使用仓库默认远程 */
+  remote?: string;
 }
 
+type TargetWebhookSetting =
+  | string
+  | { url: string; method?: string; headers?: Record<string, string>; body?: unknown; retries?: number };
+
+type TargetVerifyCommandSetting = string | { command: string; timeoutSeconds?: number };
+
+interface TargetBranchDefinition {
+  name: string;
+  description?: string;
+  mergeStrategy?: string;
+  requireTypedConfirmation?: boolean;
+  allowedSourcePrefixes?: string[];
+  allowedTimeWindows?: TargetTimeWindow[];
+  blockDirectPush?: boolean;
+  verifyCommands?: TargetVerifyCommandSetting[];
+  webhooks?: TargetWebhookSetting[];
+  remote?: string;
+}
+
+type TargetBranchSetting = string | TargetBranchDefinition;
+
+const MERGE_STRATEGIES: MergeStrategy[] = ["ff", "no-ff", "squash", "rebase"];
+const DEFAULT_VERIFY_TIMEOUT_SECONDS = 600;
+const DEFAULT_WEBHOOK_RETRIES = 2;
+
 /**
  * 合并目标分支配置管理
  * 仅负责 targetBranches 相关配置
@@ -18,37 +89,304 @@ export class MergeTargetConfigManager {
   }
 
   private parseTargetBranches(
-    branchStrings: string[] | undefined
+    branchSettings: TargetBranchSetting[] | undefined
   ): TargetBranchConfig[] {
-    if (!branchStrings || !Array.isArray(branchStrings)) {
-      return [
-        { name: "uat", description: "uat" },
-        { name: "pre", description: "pre" },
-      ];
+    if (!branchSettings || !Array.isArray(branchSettings)) {
+      branchSettings = ["uat", "pre"];
     }
 
-    return branchStrings
+    return branchSettings
+      .map((setting) => (typeof setting === "string" ? { name: setting } : setting))
       .filter(
-        (str): str is string => typeof str === "string" && str.trim().length > 0
+        (definition): definition is TargetBranchDefinition =>
+          !!definition &&
+          typeof definition.name === "string" &&
+          definition.name.trim().length > 0
+      )
+      .map((definition) => {
+        const name = definition.name.trim();
+        return {
+          name,
+          description: definition.description?.trim() || name,
+          mergeStrategy: this.isMergeStrategy(definition.mergeStrategy)
+            ? definition.mergeStrategy
+            : this.getConfiguredMergeStrategy(name),
+          protection: {
+            requireTypedConfirmation: definition.requireTypedConfirmation === true,
+            allowedSourcePrefixes: (definition.allowedSourcePrefixes || [])
+              .filter((prefix) => typeof prefix === "string" && prefix.trim().length > 0)
+              .map((prefix) => prefix.trim().replace(/\/\*?$/, "")),
+            allowedTimeWindows: (definition.allowedTimeWindows || []).filter(
+              (window) => this.parseTime(window?.start) !== undefined && this.parseTime(window?.end) !== undefined
+            ),
+            blockDirectPush: definition.blockDirectPush === true,
+          },
+          verifyCommands: this.parseVerifyCommands(definition.verifyCommands),
+          webhooks: this.parseWebhooks(definition.webhooks),
+          remote: definition.remote?.trim() || undefined,
+        };
+      });
+  }
+
+  private parseVerifyCommands(
+    settings: TargetVerifyCommandSetting[] | undefined
+  ): TargetVerifyCommand[] {
+    if (!Array.isArray(settings)) {
+      return [];
+    }
+    return settings
+      .map((setting) => (typeof setting === "string" ? { command: setting } : setting))
+      .filter((setting) => typeof setting?.command === "string" && setting.command.trim().length > 0)
+      .map((setting) => ({
+        command: setting.command.trim(),
+        timeoutSeconds:
+          typeof setting.timeoutSeconds === "number" && setting.timeoutSeconds > 0
+            ? setting.timeoutSeconds
+            : DEFAULT_VERIFY_TIMEOUT_SECONDS,
+      }));
+  }
+
+  private isMergeStrategy(value: unknown): value is MergeStrategy {
+    return MERGE_STRATEGIES.includes(value as MergeStrategy);
+  }
+
+  /**
+   * 从 mergeStrategies / defaultMergeStrategy 读取合并策略
+   */
+  private getConfiguredMergeStrategy(branchName: string): MergeStrategy {
+    const strategies = this.config.get<Record<string, string>>("mergeStrategies") || {};
+    const configured = strategies[branchName];
+    if (this.isMergeStrategy(configured)) {
+      return configured;
+    }
+
+    const defaultStrategy = this.config.get<string>("defaultMergeStrategy");
+    return this.isMergeStrategy(defaultStrategy) ? defaultStrategy : "ff";
+  }
+
+  /**
+   * 获取目标分支的合并策略（目标定义优先，其次 mergeStrategies，最后使用默认策略）
+   */
+  getMergeStrategy(branchName: string): MergeStrategy {
+    const target = this.getTargetBranches().find((branch) => branch.name === branchName);
+    return target?.mergeStrategy ?? this.getConfiguredMergeStrategy(branchName);
+  }
+
+  /**
+   * 将 HH:mm 解析为当天的分钟数
+   */
+  private parseTime(value: unknown): number | undefined {
+    const match = typeof value === "string" ? /^(\d{1,2}):(\d{2})$/.exec(value.trim()) : null;
+    if (!match) {
+      return undefined;
+    }
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) {
+      return undefined;
+    }
+    return hours * 60 + minutes;
+  }
+
+  private isWithinTimeWindow(window: TargetTimeWindow, now: Date): boolean {
+    const start = this.parseTime(window.start)!;
+    const end = this.parseTime(window.end)!;
+    const minutes = now.getHours() * 60 + now.getMinutes();
+
+    if (start <= end) {
+      const allowedDay = !window.days?.length || window.days.includes(now.getDay());
+      return allowedDay && minutes >= start && minutes < end;
+    }
+
+    // 跨天窗口：凌晨部分属于前一天的窗口
+    const day = minutes >= start ? now.getDay() : (now.getDay() + 6) % 7;
+    const allowedDay = !window.days?.length || window.days.includes(day);
+    return allowedDay && (minutes >= start || minutes < end);
+  }
+
+  /**
+   * 检查目标分支的保护规则（不含需交互的输入确认），违反时返回原因
+   */
+  getProtectionViolation(
+    target: TargetBranchConfig,
+    sourceBranch: string,
+    now: Date = new Date()
+  ): string | undefined {
+    const { protection } = target;
+
+    if (protection.blockDirectPush) {
+      return `目标分支 ${target.name} 禁止直接推送，请通过合并请求合入`;
+    }
+
+    if (
+      protection.allowedSourcePrefixes.length > 0 &&
+      !protection.allowedSourcePrefixes.some((prefix) =>
+        sourceBranch.toLowerCase().startsWith(`${prefix.toLowerCase()}/`)
       )
-      .map((name) => ({ name: name.trim(), description: name.trim() }));
+    ) {
+      const allowed = protection.allowedSourcePrefixes.map((prefix) => `${prefix}/*`).join(", ");
+      return `目标分支 ${target.name} 仅允许以下分支合入: ${allowed}`;
+    }
+
+    if (
+      protection.allowedTimeWindows.length > 0 &&
+      !protection.allowedTimeWindows.some((window) => this.isWithinTimeWindow(window, now))
+    ) {
+      const windows = protection.allowedTimeWindows
+        .map((window) => {
+          const days = window.days?.length ? `周${window.days.join("/")} ` : "";
+          return `${days}${window.start}-${window.end}`;
+        })
+        .join(", ");
+      return `当前不在目标分支 ${target.name} 允许的合并时间窗口内: ${windows}`;
+    }
+
+    return undefined;
   }
 
-  private serializeTargetBranches(branches: TargetBranchConfig[]): string[] {
-    return branches.map((b) => b.name);
+  private parseWebhooks(settings: TargetWebhookSetting[] | undefined): TargetWebhook[] {
+    if (!Array.isArray(settings)) {
+      return [];
+    }
+    return settings
+      .map((setting) => (typeof setting === "string" ? { url: setting } : setting))
+      .filter((setting) => typeof setting?.url === "string" && /^https?:\/\//i.test(setting.url.trim()))
+      .map((setting) => ({
+        url: setting.url.trim(),
+        method: setting.method?.trim().toUpperCase() || "POST",
+        headers: setting.headers && typeof setting.headers === "object" ? setting.headers : {},
+        body: setting.body,
+        retries:
+          typeof setting.retries === "number" && setting.retries >= 0
+            ? Math.floor(setting.retries)
+            : DEFAULT_WEBHOOK_RETRIES,
+      }));
+  }
+
+  /**
+   * 获取目标分支单独配置的远程，未配置时返回 undefined
+   */
+  getConfiguredRemote(branchName: string): string | undefined {
+    return this.getTargetBranches().find((branch) => branch.name === branchName)?.remote;
+  }
+
+  /**
+   * 获取目标分支合并成功后需要通知的 Webhook
+   */
+  getWebhooks(branchName: string): TargetWebhook[] {
+    const target = this.getTargetBranches().find((branch) => branch.name === branchName);
+    return target?.webhooks ?? [];
+  }
+
+  /**
+   * 获取目标分支推送前需要执行的校验命令
+   */
+  getVerifyCommands(branchName: string): TargetVerifyCommand[] {
+    const target = this.getTargetBranches().find((branch) => branch.name === branchName);
+    return target?.verifyCommands ?? [];
+  }
+
+  /**
+   * 获取在临时工作树中执行校验命令前需要运行的准备命令（如安装依赖）
+   */
+  getWorktreeSetupCommands(): TargetVerifyCommand[] {
+    return this.parseVerifyCommands(
+      this.config.get<TargetVerifyCommandSetting[]>("worktreeSetupCommands")
+    );
+  }
+
+  /**
+   * 获取环境晋级顺序，例如 ["uat", "pre", "prod"]
+   */
+  getPromotionPipeline(): string[] {
+    const pipeline = this.config.get<string[]>("promotionPipeline") || [];
+    return pipeline
+      .filter((stage): stage is string => typeof stage === "string" && stage.trim().length > 0)
+      .map((stage) => stage.trim());
+  }
+
+  /**
+   * 获取合并到指定分支前必须已包含功能分支的前序环境
+   */
+  getPrerequisiteStages(branchName: string): string[] {
+    const pipeline = this.getPromotionPipeline();
+    const index = pipeline.indexOf(branchName);
+    return index > 0 ? pipeline.slice(0, index) : [];
+  }
+
+  private serializeTargetBranches(branches: TargetBranchConfig[]): TargetBranchSetting[] {
+    return branches.map((branch) => {
+      const { protection } = branch;
+      const hasCustomStrategy =
+        branch.mergeStrategy !== this.getConfiguredMergeStrategy(branch.name);
+      const hasDetails =
+        branch.description !== branch.name ||
+        hasCustomStrategy ||
+        protection.requireTypedConfirmation ||
+        protection.allowedSourcePrefixes.length > 0 ||
+        protection.allowedTimeWindows.length > 0 ||
+        protection.blockDirectPush ||
+        branch.verifyCommands.length > 0 ||
+        branch.webhooks.length > 0 ||
+        !!branch.remote;
+      if (!hasDetails) {
+        return branch.name;
+      }
+
+      const definition: TargetBranchDefinition = { name: branch.name };
+      if (branch.description !== branch.name) {
+        definition.description = branch.description;
+      }
+      if (hasCustomStrategy) {
+        definition.mergeStrategy = branch.mergeStrategy;
+      }
+      if (protection.requireTypedConfirmation) {
+        definition.requireTypedConfirmation = true;
+      }
+      if (protection.allowedSourcePrefixes.length > 0) {
+        definition.allowedSourcePrefixes = protection.allowedSourcePrefixes;
+      }
+      if (protection.allowedTimeWindows.length > 0) {
+        definition.allowedTimeWindows = protection.allowedTimeWindows;
+      }
+      if (protection.blockDirectPush) {
+        definition.blockDirectPush = true;
+      }
+      if (branch.verifyCommands.length > 0) {
+        definition.verifyCommands = branch.verifyCommands.map((verifyCommand) =>
+          verifyCommand.timeoutSeconds === DEFAULT_VERIFY_TIMEOUT_SECONDS
+            ? verifyCommand.command
+            : verifyCommand
+        );
+      }
+      if (branch.remote) {
+        definition.remote = branch.remote;
+      }
+      if (branch.webhooks.length > 0) {
+        definition.webhooks = branch.webhooks.map(({ url, method, headers, body, retries }) => {
+          const isDefault =
+            method === "POST" &&
+            Object.keys(headers).length === 0 &&
+            body === undefined &&
+            retries === DEFAULT_WEBHOOK_RETRIES;
+          return isDefault ? url : { url, method, headers, body, retries };
+        });
+      }
+      return definition;
+    });
   }
 
   getTargetBranches(): TargetBranchConfig[] {
-    const branchStrings = this.config.get<string[]>("targetBranches");
-    return this.parseTargetBranches(branchStrings);
+    const branchSettings = this.config.get<TargetBranchSetting[]>("targetBranches");
+    return this.parseTargetBranches(branchSettings);
   }
 
   getWorkspaceTargetBranches(): TargetBranchConfig[] {
     const config = vscode.workspace.getConfiguration(this.configurationSection);
-    const targetBranchesInspect = config.inspect<string[]>("targetBranches");
-    const branchStrings =
+    const targetBranchesInspect = config.inspect<TargetBranchSetting[]>("targetBranches");
+    const branchSettings =
       targetBranchesInspect?.workspaceValue ?? targetBranchesInspect?.defaultValue;
-    return this.parseTargetBranches(branchStrings);
+    return this.parseTargetBranches(branchSettings);
   }
 
   async addTargetBranch(name: string): Promise<void> {
@@ -57,11 +395,12 @@ export class MergeTargetConfigManager {
       throw new Error(`分支 "${name}" 已存在`);
     }
 
-    const newBranches = [...currentBranches, { name, description: name }];
-    const branchStrings = this.serializeTargetBranches(newBranches);
+    const [newBranch] = this.parseTargetBranches([name]);
+    const newBranches = [...currentBranches, newBranch];
+    const branchSettings = this.serializeTargetBranches(newBranches);
     await this.config.update(
       "targetBranches",
-      branchStrings,
+      branchSettings,
       vscode.ConfigurationTarget.Workspace
     );
   }
@@ -73,10 +412,10 @@ export class MergeTargetConfigManager {
     }
 
     const newBranches = currentBranches.filter((branch) => branch.name !== name);
-    const branchStrings = this.serializeTargetBranches(newBranches);
+    const branchSettings = this.serializeTargetBranches(newBranches);
     await this.config.update(
       "targetBranches",
-      branchStrings,
+      branchSettings,
       vscode.ConfigurationTarget.Workspace
     );
   }
@@ -0,0 +1,111 @@
+import { ErrorCode } from "./errors";
+
+export type MergeStrategy = "ff" | "no-ff" | "squash" | "rebase";
+
+export type MergeTargetStatus = "merged" | "already-merged" | "skipped" | "conflicted" | "failed";
+
+export interface MergeTargetResult {
+  target: string;
+  status: MergeTargetStatus;
+  commitSha?: string;
+  /** 合并前目标分支的提交 */
+  baseSha?: string;
+  message?: string;
+  strategy?: MergeStrategy;
+  conflictFiles?: string[];
+  /** 按规则自动解决的冲突文件 */
+  autoResolved?: AutoResolvedConflict[];
+  durationMs?: number;
+  /** 失败、冲突或取消时的错误码 */
+  errorCode?: ErrorCode;
+}
+
+export interface SafeMergeResult {
+  /** 推送后目标分支的提交 */
+  commitSha: string;
+  /** 合并前目标分支的提交 */
+  baseSha: string;
+  /** 目标分支已包含功能分支的所有提交，未执行合并 */
+  alreadyMerged?: boolean;
+}
+
+/** 同步基础分支到功能分支的方式 */
+export type SyncStrategy = "merge" | "rebase";
+
+export interface SyncResult {
+  /** 基础分支名称 */
+  baseBranch: string;
+  /** 实际同步的引用，优先使用远程跟踪分支 */
+  baseRef: string;
+  strategy: SyncStrategy;
+  /** 同步进功能分支的提交数量，0 表示已是最新 */
+  integratedCount: number;
+}
+
+export interface CommitSummary {
+  sha: string;
+  author: string;
+  subject: string;
+}
+
+export interface MergeCommitSummary extends CommitSummary {
+  /** 父提交，第一个为合并时所在分支 */
+  parents: string[];
+}
+
+export interface FileChangeSummary {
+  path: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+/** git status --porcelain 中的冲突状态码 */
+export type ConflictType = "UU" | "AA" | "DD" | "AU" | "UA" | "DU" | "UD";
+
+export interface ConflictEntry {
+  path: string;
+  type: ConflictType;
+}
+
+export type ConflictSide = "ours" | "theirs";
+
+export type AutoResolveStrategy = ConflictSide | "union" | "command";
+
+export interface AutoResolvedConflict {
+  path: string;
+  strategy: AutoResolveStrategy;
+  /** strategy 为 command 时执行的命令 */
+  command?: string;
+}
+
+export interface MergeHistoryEntry {
+  id: string;
+  sourceBranch: string;
+  targetBranch: string;
+  commitSha?: string;
+  strategy?: MergeStrategy;
+  conflictFiles: string[];
+  outcome: MergeTargetStatus;
+  message?: string;
+  errorCode?: ErrorCode;
+  durationMs: number;
+  timestamp: string;
+}
+
+export interface MergeConflictPrediction {
+  /** 当前 Git 版本是否支持 merge-tree --write-tree 预测 */
+  supported: boolean;
+  hasConflicts: boolean;
+  conflictFiles: string[];
+  /** 模拟合并得到的树对象，仅在支持预测时存在 */
+  mergedTree?: string;
+}
+
+export interface MergeConflictContext {
+  strategy: MergeStrategy;
+  sourceBranch: string;
+  targetBranch: string;
+  /** 已确定的提交信息（squash 合并预先输入），未提供时在提交前引导输入 */
+  commitMessage?: string;
+}
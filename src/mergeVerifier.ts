@@ -0,0 +1,143 @@
+import { spawn } from "child_process";
+import * as vscode from "vscode";
+import { AppError } from "./errors";
+import { TargetVerifyCommand } from "./mergeTargetConfigManager";
+
+export interface MergeVerifierOptions {
+  /** 输出命令执行过程的通道，默认使用合并校验输出面板 */
+  outputChannel?: Pick<vscode.OutputChannel, "append" | "appendLine" | "show">;
+}
+
+/**
+ * 合并结果校验 - 推送前在合并后的工作区执行目标分支配置的检查命令
+ */
+export class MergeVerifier {
+  private static outputChannel: vscode.OutputChannel | undefined;
+  private options: MergeVerifierOptions;
+
+  constructor(options: MergeVerifierOptions = {}) {
+    this.options = options;
+  }
+
+  private static getOutputChannel(): vscode.OutputChannel {
+    if (!MergeVerifier.outputChannel) {
+      MergeVerifier.outputChannel = vscode.window.createOutputChannel("Git工作流助手 - 合并校验");
+    }
+    return MergeVerifier.outputChannel;
+  }
+
+  /**
+   * 依次执行校验命令，任一命令失败或超时即抛出 VERIFICATION_FAILED；
+   * setupCommands 在校验命令之前执行（如在临时工作树中安装依赖），没有校验命令时不执行
+   */
+  async run(
+    targetBranch: string,
+    commands: TargetVerifyCommand[],
+    cwd: string,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    setupCommands: TargetVerifyCommand[] = []
+  ): Promise<void> {
+    if (commands.length === 0) {
+      return;
+    }
+
+    const channel = this.options.outputChannel ?? MergeVerifier.getOutputChannel();
+    channel.show(true);
+    channel.appendLine(`===== ${new Date().toLocaleString()} 校验 ${targetBranch} 的合并结果 =====`);
+
+    for (const [index, setupCommand] of setupCommands.entries()) {
+      progress?.report({
+        message: `准备校验环境（${index + 1}/${setupCommands.length}）: ${setupCommand.command}`,
+        increment: 0,
+      });
+      await this.runCommand(setupCommand, "准备命令", cwd, channel);
+    }
+
+    for (const [index, verifyCommand] of commands.entries()) {
+      progress?.report({
+        message: `校验合并结果（${index + 1}/${commands.length}）: ${verifyCommand.command}`,
+        increment: 0,
+      });
+      await this.runCommand(verifyCommand, "校验命令", cwd, channel);
+    }
+  }
+
+  /**
+   * 执行单条命令并记录结果，失败或超时时抛出 VERIFICATION_FAILED
+   */
+  private async runCommand(
+    verifyCommand: TargetVerifyCommand,
+    label: string,
+    cwd: string,
+    channel: Pick<vscode.OutputChannel, "append" | "appendLine">
+  ): Promise<void> {
+    channel.appendLine(`$ ${verifyCommand.command}`);
+
+    const startedAt = Date.now();
+    const { exitCode, timedOut } = await this.execute(verifyCommand, cwd, channel);
+    const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+
+    if (timedOut) {
+      channel.appendLine(`✗ 超时（${verifyCommand.timeoutSeconds} 秒），已终止`);
+      throw new AppError(
+        `${label}超时（${verifyCommand.timeoutSeconds} 秒）: ${verifyCommand.command}`,
+        "VERIFICATION_FAILED",
+        { stage: "verifyMergeResult" }
+      );
+    }
+    if (exitCode !== 0) {
+      channel.appendLine(`✗ 失败，退出码 ${exitCode}（${seconds} 秒）`);
+      throw new AppError(
+        `${label}失败（退出码 ${exitCode}）: ${verifyCommand.command}`,
+        "VERIFICATION_FAILED",
+        { stage: "verifyMergeResult" }
+      );
+    }
+    channel.appendLine(`✓ 通过（${seconds} 秒）`);
+  }
+
+  /**
+   * 通过 shell 执行单条命令并将输出实时写入输出面板
+   */
+  private execute(
+    verifyCommand: TargetVerifyCommand,
+    cwd: string,
+    channel: Pick<vscode.OutputChannel, "append" | "appendLine">
+  ): Promise<{ exitCode: number | null; timedOut: boolean }> {
+    return new Promise((resolve, reject) => {
+      // 非 Windows 平台使用独立进程组，超时时可一并结束子进程
+      const detached = process.platform !== "win32";
+      const child = spawn(verifyCommand.command, { cwd, shell: true, detached });
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          if (detached && child.pid) {
+            process.kill(-child.pid, "SIGTERM");
+          } else {
+            child.kill();
+          }
+        } catch (error) {
+          console.error("终止校验命令失败:", error);
+        }
+      }, verifyCommand.timeoutSeconds * 1000);
+
+      child.stdout.on("data", (chunk: Buffer) => channel.append(chunk.toString()));
+      child.stderr.on("data", (chunk: Buffer) => channel.append(chunk.toString()));
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(
+          new AppError(`无法执行校验命令: ${verifyCommand.command}`, "VERIFICATION_FAILED", {
+            stage: "verifyMergeResult",
+            cause: error,
+          })
+        );
+      });
+      child.on("close", (exitCode) => {
+        clearTimeout(timer);
+        resolve({ exitCode, timedOut });
+      });
+    });
+  }
+}
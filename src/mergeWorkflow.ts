@@ -1,10 +1,32 @@
+import * as fs from "fs";
 import * as path from "path";
 import * as vscode from "vscode";
 import { BranchConfigManager } from "./branchConfigManager";
 import { BranchManager, MergeConflictResolution } from "./branchManager";
-import { AppError } from "./errors";
+import { BranchUtils } from "./branchUtils";
+import { CommitMessageComposer } from "./commitMessageComposer";
+import { AppError, isOperationCancelledError, toAppError } from "./errors";
 import { GitOperations } from "./gitOperations";
+import { ConflictAutoResolver } from "./conflictAutoResolver";
+import { ConflictTreeProvider } from "./conflictTreeProvider";
+import { ConflictWatcher } from "./conflictWatcher";
+import { MergeJournal, MergeJournalEntry } from "./mergeJournal";
+import { MergeReviewer } from "./mergeReviewer";
 import { MergeTargetConfigManager } from "./mergeTargetConfigManager";
+import { MergeVerifier } from "./mergeVerifier";
+import { RemoteConfigManager } from "./remoteConfigManager";
+import {
+  AutoResolvedConflict,
+  MergeConflictContext,
+  MergeConflictPrediction,
+  MergeTargetResult,
+  SafeMergeResult,
+  SyncResult,
+  SyncStrategy,
+} from "./mergeTypes";
+
+/** 未记录基础分支时，除目标分支外参与推断的常见主干分支 */
+const DEFAULT_BASE_CANDIDATES = ["main", "master", "develop"];
 
 /**
  * 合并流程类 - 负责合并流程编排
@@ -14,17 +36,47 @@ export class MergeWorkflow {
   private branchManager: BranchManager;
   private branchConfigManager: BranchConfigManager;
   private mergeTargetConfigManager: MergeTargetConfigManager;
+  private mergeJournal: MergeJournal;
+  private commitComposer: CommitMessageComposer;
+  private mergeVerifier: MergeVerifier;
+  private remoteConfigManager: RemoteConfigManager;
+  private mergeReviewer: MergeReviewer;
+  private stashLabel?: string;
+  /** 合并前所在的分支（从合并历史重新执行时可能不是源分支），流程结束后切回 */
+  private originalBranch?: string;
+  private targetConflictFiles = new Set<string>();
+  private targetAutoResolved: AutoResolvedConflict[] = [];
+  private conflictAutoResolver = new ConflictAutoResolver();
 
   constructor(
     gitOps: GitOperations,
     branchManager: BranchManager,
     branchConfigManager: BranchConfigManager,
-    mergeTargetConfigManager: MergeTargetConfigManager
+    mergeTargetConfigManager: MergeTargetConfigManager,
+    mergeJournal: MergeJournal,
+    commitComposer: CommitMessageComposer,
+    mergeVerifier: MergeVerifier,
+    remoteConfigManager: RemoteConfigManager,
+    mergeReviewer: MergeReviewer
   ) {
     this.gitOps = gitOps;
     this.branchManager = branchManager;
     this.branchConfigManager = branchConfigManager;
     this.mergeTargetConfigManager = mergeTargetConfigManager;
+    this.mergeJournal = mergeJournal;
+    this.commitComposer = commitComposer;
+    this.mergeVerifier = mergeVerifier;
+    this.remoteConfigManager = remoteConfigManager;
+    this.mergeReviewer = mergeReviewer;
+  }
+
+  /**
+   * 获取目标分支使用的远程（目标分支配置优先，fork 模式下默认为上游远程）
+   */
+  private getTargetRemote(targetBranch: string): string {
+    return this.remoteConfigManager.getTargetRemote(
+      this.mergeTargetConfigManager.getConfiguredRemote(targetBranch)
+    );
   }
 
   /**
@@ -42,7 +94,10 @@ export class MergeWorkflow {
   /**
    * 打开冲突文件（支持单个选择或批量打开前N个）
    */
-  private async openConflictFiles(conflictFiles: string[]): Promise<void> {
+  private async openConflictFiles(
+    conflictFiles: string[],
+    gitOps: GitOperations = this.gitOps
+  ): Promise<void> {
     if (conflictFiles.length === 0) {
       return;
     }
@@ -62,7 +117,7 @@ export class MergeWorkflow {
     if (openAction.value === "open-top-n") {
       const filesToOpen = conflictFiles.slice(0, this.getMaxConflictFilesToOpen());
       for (const relativePath of filesToOpen) {
-        const filePath = path.join(this.gitOps.getWorkspaceRoot(), relativePath);
+        const filePath = path.join(gitOps.getWorkspaceRoot(), relativePath);
         const document = await vscode.workspace.openTextDocument(filePath);
         await vscode.window.showTextDocument(document, { preview: false });
       }
@@ -81,7 +136,7 @@ export class MergeWorkflow {
       return;
     }
 
-    const filePath = path.join(this.gitOps.getWorkspaceRoot(), selected.value);
+    const filePath = path.join(gitOps.getWorkspaceRoot(), selected.value);
     const document = await vscode.workspace.openTextDocument(filePath);
     await vscode.window.showTextDocument(document);
   }
@@ -90,31 +145,51 @@ export class MergeWorkflow {
    * 处理合并冲突
    */
   private async handleMergeConflicts(
-    conflictFiles: string[]
+    conflictFiles: string[],
+    context: MergeConflictContext,
+    gitOps: GitOperations = this.gitOps
   ): Promise<MergeConflictResolution> {
+    // 冲突已全部解决（例如由自动解决规则处理），但合并尚未提交
     if (conflictFiles.length === 0) {
-      return "resolved";
+      return await this.commitResolvedMerge(context, gitOps);
     }
 
+    conflictFiles.forEach((file) => this.targetConflictFiles.add(file));
+    await this.mergeJournal.update({ stage: "resolving-conflicts" });
+
+    // 临时工作树会在合并结束后清理，只能在弹窗流程中解决冲突
+    const conflictView = gitOps === this.gitOps ? ConflictTreeProvider.getInstance() : undefined;
+    const actions = [
+      ...(conflictView ? ["在冲突视图中处理"] : []),
+      "打开冲突文件",
+      "中止合并",
+      "手动解决后继续",
+    ];
     const action = await vscode.window.showWarningMessage(
       `检测到 ${conflictFiles.length} 个文件存在合并冲突：\n${conflictFiles.join("\n")}`,
       { modal: true },
-      "打开冲突文件",
-      "中止合并",
-      "手动解决后继续"
+      ...actions
     );
 
     switch (action) {
+      case "在冲突视图中处理":
+        if (conflictView) {
+          await conflictView.show(gitOps);
+        } else {
+          await this.openConflictFiles(conflictFiles, gitOps);
+        }
+        return await this.waitForConflictResolution(context, gitOps);
+
       case "打开冲突文件":
-        await this.openConflictFiles(conflictFiles);
-        return "pending";
+        await this.openConflictFiles(conflictFiles, gitOps);
+        return await this.waitForConflictResolution(context, gitOps);
 
       case "中止合并":
-        await this.gitOps.abortMerge();
+        await gitOps.abortMerge();
         return "aborted";
 
       case "手动解决后继续":
-        return await this.waitForConflictResolution();
+        return await this.waitForConflictResolution(context, gitOps);
 
       default:
         return "pending";
@@ -122,50 +197,154 @@ export class MergeWorkflow {
   }
 
   /**
-   * 等待冲突解决
+   * 读取是否在合并前预测冲突的配置
    */
-  private async waitForConflictResolution(): Promise<MergeConflictResolution> {
-    while (true) {
-      const hasConflicts = await this.gitOps.checkMergeConflicts();
-      if (!hasConflicts) {
-        const hasUnstagedChanges = await this.gitOps.checkUncommittedChanges();
-        if (hasUnstagedChanges) {
-          const shouldCommit = await vscode.window.showInformationMessage(
-            "冲突已解决，是否提交合并结果？",
-            { modal: true },
-            "提交",
-            "取消"
-          );
+  private shouldPredictConflicts(): boolean {
+    const config = vscode.workspace.getConfiguration("gitWorkflowHelper");
+    return config.get<boolean>("predictConflictsBeforeMerge", true);
+  }
 
-          if (shouldCommit === "提交") {
-            await this.gitOps.commitStagedChanges("feat: 合并冲突解决");
-            return "resolved";
-          }
-          return "aborted";
-        }
-        return "resolved";
+  /**
+   * 预测到冲突时，在改动工作区之前让用户确认是否继续
+   */
+  private async confirmPredictedConflicts(
+    prediction: MergeConflictPrediction
+  ): Promise<boolean> {
+    const fileCount = prediction.conflictFiles.length;
+    const action = await vscode.window.showWarningMessage(
+      `预计合并会产生冲突（${fileCount} 个文件），当前工作区尚未改动`,
+      {
+        modal: true,
+        detail: prediction.conflictFiles.join("\n"),
+      },
+      "继续合并",
+      "取消"
+    );
+    return action === "继续合并";
+  }
+
+  /**
+   * 获取分支关联的工单号：优先使用创建分支时的记录，命名模板包含 {ticket} 时从分支名中提取
+   */
+  private async getBranchTicket(branchName: string): Promise<string | undefined> {
+    const recorded = await this.gitOps.getRecordedTicket(branchName).catch(() => undefined);
+    if (recorded) {
+      return recorded;
+    }
+    const config = this.branchConfigManager.getConfiguration();
+    const format = this.branchConfigManager.getBranchNameFormat(
+      this.branchConfigManager.findPrefixForBranch(branchName)
+    );
+    return BranchUtils.hasPlaceholder(format, "ticket")
+      ? BranchUtils.extractTicket(branchName, config.ticketPattern)?.ticket
+      : undefined;
+  }
+
+  /**
+   * 获取 squash 合并的提交信息
+   */
+  private async requestSquashMessage(
+    sourceBranch: string,
+    targetBranch: string
+  ): Promise<string | undefined> {
+    // 恢复流程中复用中断前已输入的提交信息
+    const squashMessages = (await this.mergeJournal.load())?.squashMessages ?? {};
+    if (squashMessages[targetBranch]) {
+      return squashMessages[targetBranch];
+    }
+
+    const commitMessage = await this.commitComposer.compose({
+      branchName: sourceBranch,
+      defaultSubject: `合并 ${sourceBranch} 到 ${targetBranch}`,
+      title: `squash 合并到 ${targetBranch}`,
+      ticket: await this.getBranchTicket(sourceBranch),
+    });
+    if (commitMessage) {
+      await this.mergeJournal.update({ squashMessages: { ...squashMessages, [targetBranch]: commitMessage } });
+    }
+    return commitMessage;
+  }
+
+  /**
+   * 获取冲突解决后合并提交的提交信息，已预先确定时直接使用
+   */
+  private async resolveConflictCommitMessage(
+    context: MergeConflictContext
+  ): Promise<string | undefined> {
+    if (context.commitMessage) {
+      return context.commitMessage;
+    }
+    return await this.commitComposer.compose({
+      branchName: context.sourceBranch,
+      defaultSubject: `合并 ${context.sourceBranch} 到 ${context.targetBranch}`,
+      title: "提交冲突解决结果",
+      ticket:
+        (await this.getBranchTicket(context.sourceBranch)) ??
+        (await this.getBranchTicket(context.targetBranch)),
+    });
+  }
+
+  /**
+   * 等待冲突解决：监听索引与 MERGE_HEAD 的变化，冲突全部解决后自动提交并继续
+   */
+  private async waitForConflictResolution(
+    context: MergeConflictContext,
+    gitOps: GitOperations = this.gitOps
+  ): Promise<MergeConflictResolution> {
+    const outcome = await ConflictWatcher.waitForResolution(gitOps);
+    if (outcome === "aborted") {
+      if ((await gitOps.isMergeInProgress()) || (await gitOps.checkMergeConflicts())) {
+        await gitOps.abortMerge();
       }
+      return "aborted";
+    }
 
-      const continueWaiting = await vscode.window.showInformationMessage(
-        "仍有未解决的冲突，请继续解决...",
-        { modal: true },
-        "重新检查",
-        "中止合并"
-      );
+    return await this.commitResolvedMerge(context, gitOps);
+  }
 
-      if (continueWaiting === "中止合并") {
-        await this.gitOps.abortMerge();
-        return "aborted";
+  /**
+   * 冲突全部解决后提交进行中的合并，未输入提交信息时返回 "pending"
+   */
+  private async commitResolvedMerge(
+    context: MergeConflictContext,
+    gitOps: GitOperations = this.gitOps
+  ): Promise<MergeConflictResolution> {
+    // 变基由合并流程继续执行，无需在此提交
+    if (context.strategy === "rebase") {
+      return "resolved";
+    }
+
+    if ((await gitOps.isMergeInProgress()) || (await gitOps.checkStagedChanges())) {
+      const commitMessage = await this.resolveConflictCommitMessage(context);
+      if (!commitMessage) {
+        return "pending";
       }
+      await gitOps.commitStagedChanges(commitMessage);
     }
+    return "resolved";
+  }
+
+  /**
+   * 提交没有合并流程记录的进行中合并（如手动执行的 git merge），提交信息同样经由提交信息引导输入；
+   * 未输入提交信息时返回 false，合并保持未提交
+   */
+  async commitPendingMerge(): Promise<boolean> {
+    const resolution = await this.commitResolvedMerge({
+      strategy: "no-ff",
+      sourceBranch: await this.gitOps.getMergeHeadName(),
+      targetBranch: await this.gitOps.getCurrentBranch(),
+    });
+    return resolution === "resolved";
   }
 
   /**
    * 准备合并环境
    */
   async prepareMergeEnvironment(
-    progress?: vscode.Progress<{ message?: string; increment?: number }>
+    progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    sourceBranch?: string
   ): Promise<string> {
+    this.originalBranch = undefined;
     if (progress) {
       progress.report({ message: "检查Git仓库状态...", increment: 10 });
     }
@@ -176,6 +355,19 @@ export class MergeWorkflow {
       });
     }
 
+    // 工作树模式下主工作区保持干净，必须在创建任何工作树之前检查合并记录，避免覆盖未完成的流程
+    if (await this.mergeJournal.load()) {
+      throw new AppError("存在未完成的合并流程，请先恢复或中止该流程", "UNKNOWN", {
+        stage: "prepareMergeEnvironment",
+      });
+    }
+
+    if (sourceBranch && sourceBranch !== (await this.gitOps.getCurrentBranch())) {
+      const startBranch = await this.gitOps.getCurrentBranch();
+      await this.switchToSourceBranch(sourceBranch, progress);
+      this.originalBranch = startBranch;
+    }
+
     if (progress) {
       progress.report({ message: "验证当前分支...", increment: 10 });
     }
@@ -197,7 +389,10 @@ export class MergeWorkflow {
       progress.report({ message: "确保远程分支存在...", increment: 10 });
     }
     
-    await this.branchManager.ensureRemoteBranchExists(currentBranch);
+    await this.branchManager.ensureRemoteBranchExists(
+      currentBranch,
+      this.remoteConfigManager.getFeatureRemote()
+    );
     
     if (progress) {
       progress.report({ message: "检查未提交的更改...", increment: 10 });
@@ -208,6 +403,32 @@ export class MergeWorkflow {
     return currentBranch;
   }
 
+  /**
+   * 切换到指定的源分支：仅在工作区干净且没有进行中的合并时切换
+   */
+  private async switchToSourceBranch(
+    sourceBranch: string,
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<void> {
+    const stage = "switchToSourceBranch";
+    if (
+      (await this.gitOps.isMergeInProgress()) ||
+      (await this.gitOps.isRebaseInProgress()) ||
+      (await this.gitOps.checkMergeConflicts())
+    ) {
+      throw new AppError("当前有进行中的合并或变基，请先完成或中止后再切换分支", "UNKNOWN", { stage });
+    }
+    if (await this.gitOps.checkUncommittedChanges()) {
+      throw new AppError(`工作区有未提交的更改，请先提交或暂存后再切换到 ${sourceBranch}`, "UNKNOWN", { stage });
+    }
+    if (!(await this.gitOps.checkLocalBranchExists(sourceBranch))) {
+      throw new AppError(`本地分支 ${sourceBranch} 不存在`, "UNKNOWN", { stage });
+    }
+
+    progress?.report({ message: `切换到 ${sourceBranch}...`, increment: 0 });
+    await this.gitOps.checkoutBranch(sourceBranch);
+  }
+
   /**
    * 处理未提交的更改
    */
@@ -220,6 +441,7 @@ export class MergeWorkflow {
       "检测到未提交的更改，请选择处理方式",
       "仅提交已暂存",
       "暂存全部后提交",
+      "存入 stash",
       "取消"
     );
 
@@ -227,6 +449,13 @@ export class MergeWorkflow {
       throw AppError.userCancelled("请先提交或存储更改后再运行");
     }
 
+    if (action === "存入 stash") {
+      const label = `git-workflow-helper: ${currentBranch} ${new Date().toISOString()}`;
+      await this.gitOps.stashChanges(label);
+      this.stashLabel = label;
+      return;
+    }
+
     if (action === "仅提交已暂存") {
       const hasStagedChanges = await this.gitOps.checkStagedChanges();
       if (!hasStagedChanges) {
@@ -240,88 +469,862 @@ export class MergeWorkflow {
       await this.gitOps.stageAllChanges();
     }
 
-    const commitMessage = await vscode.window.showInputBox({
-      prompt: "请输入commit内容",
-      placeHolder: "输入提交信息...",
-      validateInput: (value) => {
-        if (!value || value.trim().length === 0) {
-          return "提交信息不能为空";
-        }
-        if (value.length > 100) {
-          return "提交信息长度不能超过100个字符";
-        }
-        return null;
-      },
+    const commitMessage = await this.commitComposer.composeOrCancel({
+      branchName: currentBranch,
+      title: "提交未提交的更改",
+      ticket: await this.getBranchTicket(currentBranch),
     });
 
-    if (!commitMessage) {
-      throw AppError.userCancelled("未输入提交信息，操作已取消");
+    await this.gitOps.commitStagedChanges(commitMessage);
+    await this.gitOps.pushBranch(currentBranch, false, this.remoteConfigManager.getFeatureRemote());
+  }
+
+  /**
+   * 切回原分支后恢复合并前存入的 stash，冲突时给出恢复指引
+   */
+  private async restoreStash(): Promise<void> {
+    const label = this.stashLabel;
+    if (!label) {
+      return;
+    }
+    this.stashLabel = undefined;
+
+    const ref = await this.gitOps.findStashRef(label).catch(() => undefined);
+    if (!ref) {
+      vscode.window.showWarningMessage(`未找到合并前存入的 stash（${label}），请通过 git stash list 手动确认`);
+      return;
     }
 
-    await this.gitOps.commitStagedChanges(`feat: ${commitMessage}`);
-    await this.gitOps.pushBranch(currentBranch);
+    try {
+      await this.gitOps.popStash(ref);
+      vscode.window.showInformationMessage("已恢复合并前存入 stash 的未提交更改");
+    } catch (error) {
+      console.error("恢复 stash 失败:", error);
+      await vscode.window.showWarningMessage(
+        "恢复 stash 时发生冲突，未提交的更改仍保存在 stash 中",
+        {
+          modal: true,
+          detail: [
+            `stash: ${ref}（${label}）`,
+            "1. 在编辑器中解决带冲突标记的文件",
+            "2. 执行 git add <文件> 标记为已解决，如不希望暂存可再执行 git reset",
+            `3. 确认更改无误后执行 git stash drop ${ref} 删除该 stash`,
+            `如需放弃本次恢复：执行 git checkout -- . 后重新运行 git stash apply ${ref}`,
+          ].join("\n"),
+        }
+      );
+    }
   }
 
   /**
-   * 收集合并参数（选择目标分支）
+   * 读取多目标合并时单个目标失败后是否继续的配置
    */
-  async gatherMergeParameters(): Promise<string> {
+  private shouldContinueOnFailure(): boolean {
+    const config = vscode.workspace.getConfiguration("gitWorkflowHelper");
+    return config.get<boolean>("continueOnMergeFailure", false);
+  }
+
+  /**
+   * 读取是否在临时工作树中执行合并的配置
+   */
+  private shouldUseWorktree(): boolean {
+    const config = vscode.workspace.getConfiguration("gitWorkflowHelper");
+    return config.get<boolean>("useWorktreeForMerge", false);
+  }
+
+  /**
+   * 收集合并参数（选择一个或多个目标分支，按配置顺序返回）
+   */
+  async gatherMergeParameters(currentBranch?: string): Promise<string[]> {
     const targetBranches = this.mergeTargetConfigManager.getTargetBranches();
-    const targetBranchOptions = targetBranches.map((branch) => ({
-      label: branch.name,
-      value: branch.name,
-    }));
+    const pipeline = this.mergeTargetConfigManager.getPromotionPipeline();
+    const stageStatus = new Map<string, boolean>();
+    const missingCommits = new Map<string, number>();
+    if (currentBranch) {
+      await this.fetchTargetRemotes(targetBranches.map((branch) => branch.name));
+      for (const stage of pipeline) {
+        stageStatus.set(stage, await this.isMergedIntoStage(currentBranch, stage));
+      }
+      for (const branch of targetBranches) {
+        const ref = await this.resolveBranchRef(branch.name);
+        if (ref) {
+          missingCommits.set(branch.name, await this.gitOps.countCommits(`${ref}..${currentBranch}`));
+        }
+      }
+    }
+
+    const formatStage = (stage: string) => `${stageStatus.get(stage) ? "✓" : "✗"} ${stage}`;
+    const targetBranchOptions = targetBranches.map((branch) => {
+      const missingCount = missingCommits.get(branch.name);
+      const statusText =
+        missingCount === undefined
+          ? ""
+          : `${missingCount === 0 ? "✓ 已合并" : `✗ 缺少 ${missingCount} 个提交`} · `;
+      const prerequisites = this.mergeTargetConfigManager.getPrerequisiteStages(branch.name);
+      const details = [
+        branch.description !== branch.name ? branch.description : "",
+        prerequisites.length > 0 && stageStatus.size > 0
+          ? `前序环境: ${prerequisites.map(formatStage).join("  ")}`
+          : "",
+      ].filter(Boolean);
+
+      return {
+        label: branch.protection.blockDirectPush || branch.protection.requireTypedConfirmation
+          ? `$(lock) ${branch.name}`
+          : branch.name,
+        description: `${statusText}合并策略: ${branch.mergeStrategy}`,
+        detail: details.length > 0 ? details.join(" | ") : undefined,
+        value: branch.name,
+      };
+    });
 
     const selected = await vscode.window.showQuickPick(targetBranchOptions, {
-      placeHolder: "请选择要合并到的目标分支",
+      placeHolder: "请选择要合并到的目标分支（可多选）",
+      canPickMany: true,
     });
 
-    if (!selected) {
+    if (!selected || selected.length === 0) {
       throw AppError.userCancelled("未选择目标分支，操作已取消");
     }
 
-    return selected.value;
+    const selectedNames = new Set(selected.map((item) => item.value));
+    const orderedTargets = targetBranches
+      .map((branch) => branch.name)
+      .filter((name) => selectedNames.has(name));
+
+    if (!currentBranch || !this.shouldReviewBeforeMerge()) {
+      return orderedTargets;
+    }
+    return await this.reviewTargets(currentBranch, orderedTargets, missingCommits);
   }
 
   /**
-   * 执行主合并流程
+   * 读取合并前是否预览提交与变更文件的配置
+   */
+  private shouldReviewBeforeMerge(): boolean {
+    const config = vscode.workspace.getConfiguration("gitWorkflowHelper");
+    return config.get<boolean>("reviewBeforeMerge", true);
+  }
+
+  /**
+   * 逐个目标预览将要合并的提交与文件，返回确认继续的目标；已包含全部提交的目标无需预览
+   */
+  private async reviewTargets(
+    currentBranch: string,
+    targetBranches: string[],
+    missingCommits: Map<string, number>
+  ): Promise<string[]> {
+    const confirmed: string[] = [];
+    for (const targetBranch of targetBranches) {
+      const targetRef = await this.resolveBranchRef(targetBranch);
+      if (!targetRef || missingCommits.get(targetBranch) === 0) {
+        confirmed.push(targetBranch);
+        continue;
+      }
+
+      const decision = await this.mergeReviewer.review(
+        currentBranch,
+        targetBranch,
+        targetRef,
+        targetBranches.length > 1
+      );
+      if (decision === "cancel") {
+        throw AppError.userCancelled("已在合并预览中取消合并");
+      }
+      if (decision === "continue") {
+        confirmed.push(targetBranch);
+      }
+    }
+
+    if (confirmed.length === 0) {
+      throw AppError.userCancelled("已跳过所有目标分支，操作已取消");
+    }
+    return confirmed;
+  }
+
+  /**
+   * 获取目标分支所在远程的最新引用，失败时基于本地缓存继续
+   */
+  private async fetchTargetRemotes(targetBranches: string[]): Promise<void> {
+    for (const remote of new Set(targetBranches.map((branch) => this.getTargetRemote(branch)))) {
+      try {
+        await this.gitOps.fetchRemote(remote);
+      } catch (error) {
+        if (isOperationCancelledError(error)) {
+          throw error;
+        }
+        console.warn(`获取远程 ${remote} 的分支信息失败，将基于本地缓存继续`);
+      }
+    }
+  }
+
+  /**
+   * 检查功能分支是否已包含在指定环境分支中（优先使用远程跟踪分支）
+   */
+  private async isMergedIntoStage(sourceBranch: string, stage: string): Promise<boolean> {
+    const ref = await this.resolveBranchRef(stage);
+    if (!ref) {
+      return false;
+    }
+    if (await this.gitOps.isAncestor(sourceBranch, ref)) {
+      return true;
+    }
+
+    // squash 与变基合并会生成新的提交，只能按内容判断是否已合并
+    const strategy = this.mergeTargetConfigManager.getMergeStrategy(stage);
+    if (strategy !== "squash" && strategy !== "rebase") {
+      return false;
+    }
+    if (await this.gitOps.containsEquivalentPatches(ref, sourceBranch)) {
+      return true;
+    }
+    const prediction = await this.gitOps.predictMergeConflicts(sourceBranch, ref);
+    return (
+      prediction.supported &&
+      !prediction.hasConflicts &&
+      prediction.mergedTree === (await this.gitOps.getTreeSha(ref))
+    );
+  }
+
+  /**
+   * 校验晋级顺序：合并到某个环境前，功能分支必须已包含在所有前序环境中
+   */
+  private async enforcePromotionOrder(sourceBranch: string, targetBranch: string): Promise<void> {
+    const prerequisites = this.mergeTargetConfigManager.getPrerequisiteStages(targetBranch);
+    if (prerequisites.length === 0) {
+      return;
+    }
+
+    await this.fetchTargetRemotes(prerequisites);
+
+    const missingStages: string[] = [];
+    for (const stage of prerequisites) {
+      if (!(await this.isMergedIntoStage(sourceBranch, stage))) {
+        missingStages.push(stage);
+      }
+    }
+
+    if (missingStages.length > 0) {
+      const contentCompared = missingStages
+        .map((stage) => ({ stage, strategy: this.mergeTargetConfigManager.getMergeStrategy(stage) }))
+        .filter(({ strategy }) => strategy === "squash" || strategy === "rebase")
+        .map(({ stage, strategy }) => `${stage} 使用 ${strategy} 合并，已按提交内容比对，仍有改动未进入该分支`);
+      const hint = contentCompared.length > 0 ? `（${contentCompared.join("；")}）` : "";
+      throw new AppError(
+        `合并到 ${targetBranch} 前需先合并到: ${missingStages.join(", ")}${hint}`,
+        "PROMOTION_BLOCKED",
+        { stage: "enforcePromotionOrder" }
+      );
+    }
+  }
+
+  /**
+   * 在切换任何分支之前校验所有目标分支的保护规则，返回已通过输入分支名确认的目标
+   */
+  private async enforceTargetProtection(
+    sourceBranch: string,
+    targetBranches: string[],
+    confirmedTargets: string[] = []
+  ): Promise<string[]> {
+    const configuredTargets = this.mergeTargetConfigManager.getTargetBranches();
+    const confirmed = [...confirmedTargets];
+
+    for (const targetBranch of targetBranches) {
+      const target = configuredTargets.find((branch) => branch.name === targetBranch);
+      if (!target) {
+        continue;
+      }
+
+      const violation = this.mergeTargetConfigManager.getProtectionViolation(target, sourceBranch);
+      if (violation) {
+        throw new AppError(violation, "TARGET_PROTECTED", { stage: "enforceTargetProtection" });
+      }
+
+      if (target.protection.requireTypedConfirmation && !confirmed.includes(target.name)) {
+        const confirmation = await vscode.window.showInputBox({
+          title: `合并到受保护分支 ${target.name}`,
+          prompt: `请输入 ${target.name} 以确认将 ${sourceBranch} 合并到该分支`,
+          validateInput: (value) =>
+            value === target.name ? null : `请输入 ${target.name}`,
+        });
+        if (confirmation !== target.name) {
+          throw AppError.userCancelled(`未确认合并到受保护分支 ${target.name}，操作已取消`);
+        }
+        confirmed.push(target.name);
+      }
+    }
+    return confirmed;
+  }
+
+  /**
+   * 执行主合并流程（按顺序合并到每个目标分支），恢复时传入中断前的合并记录
    */
   async executeMainMergeFlow(
     currentBranch: string,
-    targetBranch: string,
-    progress: vscode.Progress<{ message?: string; increment?: number }>
-  ): Promise<void> {
-    progress.report({ message: `切换到目标分支 ${targetBranch}...`, increment: 20 });
-    await this.mergeFeatureToTarget(currentBranch, targetBranch, progress);
-    
-    progress.report({ message: `切回原分支 ${currentBranch}...`, increment: 20 });
-    await this.gitOps.checkoutBranch(currentBranch);
+    targetBranches: string[],
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    resumed?: MergeJournalEntry
+  ): Promise<MergeTargetResult[]> {
+    const resumedTarget = resumed?.targetBranch;
+    const originalBranch = resumed?.originalBranch ?? this.originalBranch ?? currentBranch;
+    const confirmedTargets = await this.enforceTargetProtection(
+      currentBranch,
+      targetBranches,
+      resumed?.confirmedTargets
+    );
+
+    const continueOnFailure = this.shouldContinueOnFailure();
+    const useWorktree = this.shouldUseWorktree();
+    const results: MergeTargetResult[] = [];
+    const completedTargets: string[] = [];
+    let stopped = false;
+    let leftInConflict = false;
+
+    await this.mergeJournal.save({
+      sourceBranch: currentBranch,
+      originalBranch,
+      targetBranch: targetBranches[0],
+      targets: targetBranches,
+      completedTargets,
+      stage: "merging",
+      stashLabel: this.stashLabel,
+      confirmedTargets,
+      squashMessages: resumed?.squashMessages,
+      startedAt: resumed?.startedAt ?? new Date().toISOString(),
+    });
+
+    for (const targetBranch of targetBranches) {
+      if (stopped) {
+        results.push({ target: targetBranch, status: "skipped", message: "前序目标失败，已跳过" });
+        continue;
+      }
+
+      await this.mergeJournal.update({ targetBranch, stage: "merging", worktreePath: undefined });
+      progress.report({ message: `切换到目标分支 ${targetBranch}...`, increment: 0 });
+
+      const startedAt = Date.now();
+      const strategy = this.mergeTargetConfigManager.getMergeStrategy(targetBranch);
+      this.targetConflictFiles.clear();
+      this.targetAutoResolved = [];
+      const details = () => ({
+        strategy,
+        conflictFiles: Array.from(this.targetConflictFiles),
+        autoResolved: this.targetAutoResolved.length > 0 ? [...this.targetAutoResolved] : undefined,
+        durationMs: Date.now() - startedAt,
+      });
+
+      try {
+        await this.enforcePromotionOrder(currentBranch, targetBranch);
+        const { commitSha, baseSha, alreadyMerged } = await this.mergeFeatureToTarget(
+          currentBranch,
+          targetBranch,
+          progress,
+          useWorktree,
+          targetBranch !== resumedTarget
+        );
+        if (alreadyMerged) {
+          results.push({
+            target: targetBranch,
+            status: "already-merged",
+            commitSha,
+            message: `${targetBranch} 已包含 ${currentBranch} 的所有提交，无需合并`,
+            ...details(),
+          });
+        } else {
+          results.push({ target: targetBranch, status: "merged", commitSha, baseSha, ...details() });
+        }
+      } catch (error) {
+        const appError = toAppError(error);
+        if (appError.code === "MERGE_CONFLICT") {
+          // 冲突尚未解决，保留现场交给用户处理，不能继续后续目标
+          const stashHint = this.stashLabel ? "；合并前的未提交更改仍保存在 stash 中" : "";
+          const resolveHint = useWorktree
+            ? "请在临时工作树中解决冲突后执行“继续合并”"
+            : `请在 ${targetBranch} 上解决冲突后手动提交并推送`;
+          results.push({
+            target: targetBranch,
+            status: "conflicted",
+            message: `${appError.message}，${resolveHint}${stashHint}`,
+            errorCode: appError.code,
+            ...details(),
+          });
+          stopped = true;
+          leftInConflict = true;
+          continue;
+        }
+
+        if (appError.code === "OPERATION_CANCELLED") {
+          // 当前目标已在 safeMergeBranch 中回滚，清除令牌以便切回原分支
+          this.gitOps.setCancellationToken(undefined);
+          results.push({
+            target: targetBranch,
+            status: "skipped",
+            message: `${appError.message}，本地目标分支已回滚`,
+            errorCode: appError.code,
+            ...details(),
+          });
+          stopped = true;
+          continue;
+        }
+
+        if (appError.code === "USER_CANCELLED") {
+          // 用户在改动工作区之前取消，剩余目标一并跳过
+          results.push({
+            target: targetBranch,
+            status: "skipped",
+            message: appError.message,
+            errorCode: appError.code,
+            ...details(),
+          });
+          stopped = true;
+          continue;
+        }
+
+        const status = appError.code === "MERGE_ABORTED" ? "conflicted" : "failed";
+        results.push({
+          target: targetBranch,
+          status,
+          message: appError.message,
+          errorCode: appError.code,
+          ...details(),
+        });
+        await this.cleanupFailedMerge();
+        stopped = !continueOnFailure;
+      }
+
+      completedTargets.push(targetBranch);
+      await this.mergeJournal.update({ completedTargets });
+    }
+
+    // 保留合并记录，便于用户解决冲突后通过恢复流程继续
+    if (leftInConflict) {
+      return results;
+    }
+
+    await this.mergeJournal.update({ stage: "returning" });
+
+    // 工作树模式下主工作区不会切换分支，只有从其他分支开始（如重新执行历史合并）时才需切回
+    if (!useWorktree || (await this.gitOps.getCurrentBranch()) !== originalBranch) {
+      progress.report({ message: `切回原分支 ${originalBranch}...`, increment: 10 });
+      await this.gitOps.checkoutBranch(originalBranch);
+    }
     
-    const currentBranchExists = await this.gitOps.checkRemoteBranchExists(currentBranch);
+    const featureRemote = this.remoteConfigManager.getFeatureRemote();
+    const currentBranchExists = await this.gitOps.checkRemoteBranchExists(currentBranch, featureRemote);
     if (currentBranchExists) {
       progress.report({ message: `设置上游分支关联...`, increment: 10 });
-      await this.gitOps.ensureBranchUpstream(currentBranch);
+      await this.gitOps.ensureBranchUpstream(currentBranch, featureRemote);
     }
+
+    await this.restoreStash();
+    await this.mergeJournal.clear();
+    return results;
   }
 
   /**
-   * 合并功能分支到目标分支
+   * 恢复中断的合并流程：收尾进行中的合并后，重新执行未完成的目标分支
+   */
+  async resumeMergeFlow(
+    entry: MergeJournalEntry,
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<MergeTargetResult[]> {
+    progress.report({ message: `恢复合并 ${entry.sourceBranch} → ${entry.targetBranch}...`, increment: 0 });
+    this.stashLabel = entry.stashLabel;
+    this.originalBranch = entry.originalBranch;
+
+    if (entry.worktreePath) {
+      // 保留下来的临时工作树中先提交冲突解决结果，清理后由合并流程推送
+      if (fs.existsSync(entry.worktreePath)) {
+        await this.finishInterruptedMerge(
+          entry,
+          new GitOperations(entry.worktreePath, this.gitOps.getCancellationToken())
+        );
+      }
+      await this.gitOps.removeWorktree(entry.worktreePath).catch(() => undefined);
+    } else {
+      await this.finishInterruptedMerge(entry);
+    }
+
+    const remainingTargets = entry.targets.filter(
+      (target) => !entry.completedTargets.includes(target)
+    );
+    if (remainingTargets.length === 0) {
+      await this.abortInterruptedMerge(entry);
+      return [];
+    }
+
+    // 目标分支重新拉取、合并与推送均为幂等操作，已提交的合并会直接推送
+    return await this.executeMainMergeFlow(
+      entry.sourceBranch,
+      remainingTargets,
+      progress,
+      entry
+    );
+  }
+
+  /**
+   * 收尾中断的合并（主工作区或保留的临时工作树）：普通合并继续解决冲突并提交，变基或 squash 则回滚后重新执行
+   */
+  private async finishInterruptedMerge(
+    entry: MergeJournalEntry,
+    gitOps: GitOperations = this.gitOps
+  ): Promise<void> {
+    const strategy = this.mergeTargetConfigManager.getMergeStrategy(entry.targetBranch);
+    // squash 合并不会产生 MERGE_HEAD，冲突解决后的结果只存在于暂存区
+    const hasPendingSquash = async () =>
+      strategy === "squash" &&
+      (await gitOps.getCurrentBranch()) === entry.targetBranch &&
+      (await gitOps.checkStagedChanges());
+
+    if (!(await gitOps.isMergeInProgress()) && !(await hasPendingSquash())) {
+      if (gitOps === this.gitOps) {
+        await this.cleanupFailedMerge();
+      }
+      return;
+    }
+
+    const conflictFiles = await gitOps.getConflictFiles();
+    const context: MergeConflictContext = {
+      strategy,
+      sourceBranch: entry.sourceBranch,
+      targetBranch: entry.targetBranch,
+    };
+    const resolution = await this.handleMergeConflicts(conflictFiles, context, gitOps);
+    if (resolution === "aborted") {
+      throw new AppError("用户中止了合并流程", "MERGE_ABORTED", { stage: "resumeMergeFlow" });
+    }
+    if (resolution === "pending") {
+      throw new AppError("冲突尚未解决，已保留合并现场，解决后执行“继续合并”", "MERGE_CONFLICT", {
+        stage: "resumeMergeFlow",
+      });
+    }
+
+    if ((await gitOps.isMergeInProgress()) || (await hasPendingSquash())) {
+      const commitMessage = await this.resolveConflictCommitMessage(context);
+      if (!commitMessage) {
+        throw new AppError("未输入提交信息，合并尚未提交，已保留合并现场", "MERGE_CONFLICT", {
+          stage: "resumeMergeFlow",
+        });
+      }
+      await gitOps.commitStagedChanges(commitMessage);
+    }
+  }
+
+  /**
+   * 中止中断的合并流程并切回原分支
+   */
+  async abortInterruptedMerge(entry: MergeJournalEntry): Promise<void> {
+    if (entry.worktreePath) {
+      await this.gitOps.removeWorktree(entry.worktreePath).catch(() => undefined);
+    } else {
+      await this.cleanupFailedMerge();
+    }
+    await this.gitOps.checkoutBranch(entry.originalBranch);
+    this.stashLabel = entry.stashLabel;
+    await this.restoreStash();
+    await this.mergeJournal.clear();
+  }
+
+  /**
+   * 合并功能分支到目标分支，返回合并后的提交哈希
    */
   private async mergeFeatureToTarget(
     currentBranch: string,
     targetBranch: string,
-    progress: vscode.Progress<{ message?: string; increment?: number }>
-  ): Promise<void> {
-    progress.report({ message: `合并 ${currentBranch} 到 ${targetBranch}...`, increment: 30 });
-    
-    await this.branchManager.safeMergeBranch(
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    useWorktree: boolean = false,
+    predictConflicts: boolean = true
+  ): Promise<SafeMergeResult> {
+    if (!useWorktree) {
+      progress.report({ message: `合并 ${currentBranch} 到 ${targetBranch}...`, increment: 0 });
+      return await this.runSafeMerge(
+        this.gitOps,
+        this.branchManager,
+        currentBranch,
+        targetBranch,
+        progress,
+        predictConflicts
+      );
+    }
+
+    progress.report({ message: `为 ${targetBranch} 创建临时工作树...`, increment: 0 });
+    const worktreePath = await this.gitOps.addTemporaryWorktree(targetBranch);
+    const worktreeGitOps = new GitOperations(worktreePath, this.gitOps.getCancellationToken());
+    await this.mergeJournal.update({ worktreePath });
+    let keepWorktree = false;
+
+    try {
+      progress.report({ message: `在临时工作树中合并 ${currentBranch} 到 ${targetBranch}...`, increment: 0 });
+      return await this.runSafeMerge(
+        worktreeGitOps,
+        new BranchManager(worktreeGitOps),
+        currentBranch,
+        targetBranch,
+        progress,
+        predictConflicts
+      );
+    } catch (error) {
+      const appError = toAppError(error);
+      if (appError.code === "OPERATION_CANCELLED") {
+        // 清除令牌，保证临时工作树能够被清理
+        this.gitOps.setCancellationToken(undefined);
+      }
+      if (appError.code === "MERGE_CONFLICT") {
+        // 冲突尚未解决（可能已打开冲突文件），保留临时工作树供用户继续处理
+        keepWorktree = true;
+        throw new AppError(`冲突尚未解决，已保留临时工作树 ${worktreePath}`, "MERGE_CONFLICT", {
+          stage: "mergeFeatureToTarget",
+          cause: error,
+        });
+      }
+      throw error;
+    } finally {
+      if (!keepWorktree) {
+        try {
+          await this.gitOps.removeWorktree(worktreePath);
+        } catch (error) {
+          console.error(`清理临时工作树 ${worktreePath} 失败:`, error);
+          vscode.window.showWarningMessage(`临时工作树清理失败，请手动删除: ${worktreePath}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * 按配置规则自动解决冲突，并记录到当前目标的合并结果中
+   */
+  private async autoResolveConflicts(gitOps: GitOperations): Promise<AutoResolvedConflict[]> {
+    const resolved = await this.conflictAutoResolver.resolve(gitOps);
+    for (const conflict of resolved) {
+      this.targetConflictFiles.add(conflict.path);
+      this.targetAutoResolved.push(conflict);
+    }
+    return resolved;
+  }
+
+  /**
+   * 推送被拒绝（远程有新提交）时的自动重试次数
+   */
+  private getPushRetryCount(): number {
+    const config = vscode.workspace.getConfiguration("gitWorkflowHelper");
+    const configured = config.get<number>("pushRetryCount", 2);
+    return Number.isFinite(configured) && configured > 0 ? Math.floor(configured) : 0;
+  }
+
+  /**
+   * 使用指定的仓库上下文执行安全合并
+   */
+  private async runSafeMerge(
+    gitOps: GitOperations,
+    branchManager: BranchManager,
+    currentBranch: string,
+    targetBranch: string,
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    predictConflicts: boolean = true
+  ): Promise<SafeMergeResult> {
+    return await branchManager.safeMergeBranch(
       targetBranch,
       currentBranch,
-      this.handleMergeConflicts.bind(this),
-      progress
+      {
+        autoResolveConflicts: () => this.autoResolveConflicts(gitOps),
+        onConflict: (conflictFiles, context) =>
+          this.handleMergeConflicts(conflictFiles, context, gitOps),
+        onPredictedConflicts: predictConflicts && this.shouldPredictConflicts()
+          ? this.confirmPredictedConflicts.bind(this)
+          : undefined,
+        requestSquashMessage: this.requestSquashMessage.bind(this),
+        verifyMergeResult: (target, verifyProgress) =>
+          this.mergeVerifier.run(
+            target,
+            this.mergeTargetConfigManager.getVerifyCommands(target),
+            gitOps.getWorkspaceRoot(),
+            verifyProgress,
+            // 临时工作树中只有受版本控制的文件，校验前先执行准备命令（如安装依赖）
+            gitOps === this.gitOps ? [] : this.mergeTargetConfigManager.getWorktreeSetupCommands()
+          ),
+      },
+      progress,
+      {
+        strategy: this.mergeTargetConfigManager.getMergeStrategy(targetBranch),
+        pushRetries: this.getPushRetryCount(),
+        remote: this.getTargetRemote(targetBranch),
+      }
     );
-    
-    progress.report({ message: `推送合并结果到远程...`, increment: 20 });
+  }
+
+  /**
+   * 读取同步基础分支的方式配置
+   */
+  private getSyncStrategy(): SyncStrategy {
+    const config = vscode.workspace.getConfiguration("gitWorkflowHelper");
+    return config.get<SyncStrategy>("syncStrategy", "merge") === "rebase" ? "rebase" : "merge";
+  }
+
+  /**
+   * 优先使用远程跟踪分支，不存在时回退到本地分支
+   */
+  private async resolveBranchRef(branch: string): Promise<string | undefined> {
+    for (const ref of [`${this.getTargetRemote(branch)}/${branch}`, branch]) {
+      if (await this.gitOps.refExists(ref)) {
+        return ref;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 确定功能分支的基础分支：优先使用创建分支时的记录，
+   * 否则在目标分支与常见主干分支中选择分叉后功能分支提交最少（merge-base 最近）的一个
+   */
+  private async resolveBaseBranch(featureBranch: string): Promise<string> {
+    const recorded = await this.gitOps.getRecordedBaseBranch(featureBranch);
+    if (recorded) {
+      return recorded;
+    }
+
+    const candidates = new Set([
+      ...this.mergeTargetConfigManager.getTargetBranches().map((branch) => branch.name),
+      ...DEFAULT_BASE_CANDIDATES,
+    ]);
+    let nearest: { branch: string; distance: number } | undefined;
+    for (const branch of candidates) {
+      const ref = branch === featureBranch ? undefined : await this.resolveBranchRef(branch);
+      // 已包含功能分支的分支（例如已合并过的环境分支）不能作为基础分支
+      if (!ref || (await this.gitOps.isAncestor(featureBranch, ref))) {
+        continue;
+      }
+      const distance = await this.gitOps.countCommits(`${ref}..${featureBranch}`);
+      if (!nearest || distance < nearest.distance) {
+        nearest = { branch, distance };
+      }
+    }
+
+    if (!nearest) {
+      throw new AppError(`无法确定 ${featureBranch} 的基础分支`, "UNKNOWN", {
+        stage: "resolveBaseBranch",
+      });
+    }
+    return nearest.branch;
+  }
+
+  /**
+   * 将基础分支的最新提交同步到当前功能分支并推送
+   */
+  async syncFeatureBranch(
+    featureBranch: string,
+    progress: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<SyncResult> {
+    const baseBranch = await this.resolveBaseBranch(featureBranch);
+    const strategy = this.getSyncStrategy();
+
+    progress.report({ message: `获取基础分支 ${baseBranch} 的最新提交...`, increment: 10 });
+    try {
+      await this.gitOps.fetchRemote(this.getTargetRemote(baseBranch));
+    } catch (error) {
+      if (isOperationCancelledError(error)) {
+        throw error;
+      }
+      vscode.window.showWarningMessage(
+        "获取远程分支信息失败，将基于本地缓存继续执行，结果可能不是最新状态"
+      );
+    }
+
+    const baseRef = await this.resolveBranchRef(baseBranch);
+    if (!baseRef) {
+      throw new AppError(`基础分支 ${baseBranch} 不存在（本地/远程）`, "UNKNOWN", {
+        stage: "syncFeatureBranch",
+      });
+    }
+
+    this.targetConflictFiles.clear();
+    this.targetAutoResolved = [];
+    const integratedCount = await this.branchManager.syncBranchWithBase(
+      featureBranch,
+      baseRef,
+      strategy,
+      {
+        autoResolveConflicts: () => this.autoResolveConflicts(this.gitOps),
+        onConflict: (conflictFiles, context) => this.handleMergeConflicts(conflictFiles, context),
+      },
+      progress,
+      this.remoteConfigManager.getFeatureRemote()
+    );
+
+    await this.restoreStash();
+    return { baseBranch, baseRef, strategy, integratedCount };
+  }
+
+  /**
+   * 处理同步错误：冲突待解决时保留现场，否则中止进行中的合并/变基并恢复 stash
+   */
+  async handleSyncError(error: any): Promise<void> {
+    console.error("同步基础分支时发生错误:", error);
+    this.gitOps.setCancellationToken(undefined);
+
+    if (toAppError(error).code === "MERGE_CONFLICT") {
+      if (this.stashLabel) {
+        vscode.window.showWarningMessage(
+          `同步前存入的未提交更改仍保存在 stash 中（${this.stashLabel}），解决冲突后请手动恢复`
+        );
+        this.stashLabel = undefined;
+      }
+      return;
+    }
+
+    await this.cleanupFailedMerge();
+    await this.restoreStash();
+  }
+
+  /**
+   * 清理失败的合并现场，便于继续处理下一个目标分支
+   */
+  private async cleanupFailedMerge(): Promise<void> {
+    const inProgress =
+      (await this.gitOps.isMergeInProgress()) ||
+      (await this.gitOps.isRebaseInProgress()) ||
+      (await this.gitOps.checkMergeConflicts());
+    if (inProgress) {
+      try {
+        await this.gitOps.abortMerge();
+      } catch (error) {
+        console.error("中止失败的合并时出错:", error);
+      }
+    }
+  }
+
+  /**
+   * 展示每个目标分支的合并结果汇总
+   */
+  async showMergeSummary(results: MergeTargetResult[]): Promise<void> {
+    const statusLabels: Record<MergeTargetResult["status"], string> = {
+      merged: "✅ 已合并",
+      "already-merged": "✔️ 此前已合并",
+      skipped: "⏭️ 已跳过",
+      conflicted: "⚠️ 存在冲突",
+      failed: "❌ 失败",
+    };
+
+    const lines = results.map((result) => {
+      const sha = result.commitSha ? ` (${result.commitSha.substring(0, 8)})` : "";
+      const reason = result.message ? `：${result.message}` : "";
+      const autoResolved = (result.autoResolved || []).map(
+        (conflict) =>
+          `    自动解决 ${conflict.path}（${conflict.command ? `命令: ${conflict.command}` : conflict.strategy}）`
+      );
+      return [`${result.target}: ${statusLabels[result.status]}${sha}${reason}`, ...autoResolved].join("\n");
+    });
+
+    const allMerged = results.every(
+      (result) => result.status === "merged" || result.status === "already-merged"
+    );
+    const title = allMerged ? "✓ 合并流程完成！" : "合并流程已结束，部分目标未成功合并";
+    const detail = lines.join("\n");
+
+    if (allMerged) {
+      await vscode.window.showInformationMessage(title, { modal: true, detail });
+    } else {
+      await vscode.window.showWarningMessage(title, { modal: true, detail });
+    }
   }
 
   /**
@@ -329,13 +1332,24 @@ export class MergeWorkflow {
    */
   async handleMergeError(error: any, currentBranch: string): Promise<void> {
     console.error("合并过程中发生错误:", error);
+    // 取消后仍需执行恢复操作，不能再被令牌终止
+    this.gitOps.setCancellationToken(undefined);
 
-    if (currentBranch) {
+    // 冲突尚未解决时保留合并记录、stash 与临时工作树，供用户解决后继续
+    if (toAppError(error).code === "MERGE_CONFLICT") {
+      return;
+    }
+
+    // 从其他分支开始的合并（如重新执行历史合并）需切回最初所在的分支
+    const originalBranch = this.originalBranch ?? currentBranch;
+    if (originalBranch) {
       try {
-        await this.gitOps.checkoutBranch(currentBranch);
+        await this.gitOps.checkoutBranch(originalBranch);
+        await this.restoreStash();
+        await this.mergeJournal.clear();
       } catch {
         vscode.window.showErrorMessage(
-          `无法切回原分支 ${currentBranch}，请手动切换`
+          `无法切回原分支 ${originalBranch}，请手动切换`
         );
       }
     }
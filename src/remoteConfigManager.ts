@@ -0,0 +1,60 @@
+import * as vscode from "vscode";
+
+/**
+ * 远程仓库配置管理
+ * 按仓库读取默认远程，并在 fork 模式下区分功能分支与目标分支使用的远程
+ */
+export class RemoteConfigManager {
+  private readonly configurationSection = "gitWorkflowHelper";
+  private workspaceRoot: string;
+
+  constructor(workspaceRoot: string) {
+    this.workspaceRoot = workspaceRoot;
+  }
+
+  /**
+   * 读取当前仓库（工作区文件夹）级别的配置
+   */
+  private getConfig(): vscode.WorkspaceConfiguration {
+    return vscode.workspace.getConfiguration(
+      this.configurationSection,
+      vscode.Uri.file(this.workspaceRoot)
+    );
+  }
+
+  private readRemote(key: string, fallback: string): string {
+    const value = this.getConfig().get<string>(key);
+    return typeof value === "string" && value.trim().length > 0 ? value.trim() : fallback;
+  }
+
+  /**
+   * 默认远程名称
+   */
+  getDefaultRemote(): string {
+    return this.readRemote("remote", "origin");
+  }
+
+  /**
+   * 是否启用 fork 模式：功能分支推送到 fork，目标分支从上游拉取并推送
+   */
+  isForkMode(): boolean {
+    return this.getConfig().get<boolean>("forkMode", false);
+  }
+
+  /**
+   * 功能分支使用的远程
+   */
+  getFeatureRemote(): string {
+    return this.isForkMode() ? this.readRemote("forkRemote", "origin") : this.getDefaultRemote();
+  }
+
+  /**
+   * 目标分支使用的远程，目标分支单独配置的远程优先
+   */
+  getTargetRemote(configuredRemote?: string): string {
+    if (configuredRemote && configuredRemote.trim().length > 0) {
+      return configuredRemote.trim();
+    }
+    return this.isForkMode() ? this.readRemote("upstreamRemote", "upstream") : this.getDefaultRemote();
+  }
+}
@@ -0,0 +1,50 @@
+import * as assert from "assert";
+import { describe, it } from "node:test";
+import { BranchUtils } from "../branchUtils";
+
+/** 与 BranchConfigManager 的默认工单号正则一致 */
+const TICKET_PATTERN = "[A-Z][A-Z0-9]+-\\d+";
+
+describe("BranchUtils.extractTicket", () => {
+  it("extracts a Jira-style ticket and strips it from the description", () => {
+    assert.deepStrictEqual(BranchUtils.extractTicket("PROJ-123 用户登录", TICKET_PATTERN), {
+      ticket: "PROJ-123",
+      rest: "用户登录",
+    });
+    assert.deepStrictEqual(BranchUtils.extractTicket("PROJ-42: 修复超时", TICKET_PATTERN), {
+      ticket: "PROJ-42",
+      rest: "修复超时",
+    });
+  });
+
+  it("does not treat lowercase words with a number suffix as tickets", () => {
+    assert.strictEqual(BranchUtils.extractTicket("support utf-8 names", TICKET_PATTERN), undefined);
+    assert.strictEqual(BranchUtils.extractTicket("upgrade to es-2020", TICKET_PATTERN), undefined);
+    assert.strictEqual(BranchUtils.extractTicket("fix sha-256 checksum", TICKET_PATTERN, "PROJ"), undefined);
+  });
+
+  it("completes a leading numeric id with the default project key", () => {
+    assert.deepStrictEqual(BranchUtils.extractTicket("123 用户登录", TICKET_PATTERN, "proj"), {
+      ticket: "PROJ-123",
+      rest: "用户登录",
+    });
+    assert.deepStrictEqual(BranchUtils.extractTicket("#45-login", TICKET_PATTERN, "PROJ"), {
+      ticket: "PROJ-45",
+      rest: "login",
+    });
+  });
+
+  it("ignores numeric ids without a default project key or inside the description", () => {
+    assert.strictEqual(BranchUtils.extractTicket("123 用户登录", TICKET_PATTERN), undefined);
+    assert.strictEqual(BranchUtils.extractTicket("支持 2 种登录方式", TICKET_PATTERN, "PROJ"), undefined);
+    assert.strictEqual(BranchUtils.extractTicket("2fa login", TICKET_PATTERN, "PROJ"), undefined);
+  });
+
+  it("rejects extracted tickets that do not fully match the pattern", () => {
+    assert.strictEqual(BranchUtils.extractTicket("123 登录", "[A-Z]+-\\d{4}", "PROJ"), undefined);
+  });
+
+  it("returns undefined for an invalid pattern", () => {
+    assert.strictEqual(BranchUtils.extractTicket("PROJ-1 登录", "[", "PROJ"), undefined);
+  });
+});
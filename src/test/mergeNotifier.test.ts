@@ -0,0 +1,171 @@
+import "./vscodeShim";
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { after, before, beforeEach, describe, it } from "node:test";
+import type { GitOperations } from "../gitOperations";
+import type { MergeTargetConfigManager, TargetWebhook } from "../mergeTargetConfigManager";
+import { MergeNotifier } from "../mergeNotifier";
+import { CommitSummary, MergeTargetResult } from "../mergeTypes";
+
+interface ReceivedRequest {
+  method?: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const COMMITS: CommitSummary[] = [
+  { sha: "1111111111111111111111111111111111111111", author: "alice", subject: "feat: 登录" },
+  { sha: "2222222222222222222222222222222222222222", author: "bob", subject: "fix: 校验" },
+];
+
+const MERGE_SHA = "abcdef0123456789abcdef0123456789abcdef01";
+
+const fakeGitOps = {
+  execGitArgs: async () => "merger",
+  getCommitSummaries: async () => COMMITS,
+} as unknown as GitOperations;
+
+function createNotifier(webhook: TargetWebhook, lines: string[]): MergeNotifier {
+  const configManager = {
+    getWebhooks: (target: string) => (target === "uat" ? [webhook] : []),
+  } as unknown as MergeTargetConfigManager;
+
+  return new MergeNotifier(fakeGitOps, configManager, {
+    outputChannel: { appendLine: (line: string) => lines.push(line) },
+    retryDelayMs: 1,
+  });
+}
+
+const MERGED: MergeTargetResult[] = [
+  { target: "uat", status: "merged", commitSha: MERGE_SHA, baseSha: "0000000" },
+];
+
+describe("MergeNotifier", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[];
+  /** 依次返回的状态码，用完后返回 200 */
+  let statuses: number[];
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = "";
+      request.setEncoding("utf8");
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        received.push({ method: request.method, headers: request.headers, body });
+        response.statusCode = statuses.shift() ?? 200;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    received = [];
+    statuses = [];
+  });
+
+  it("按模板渲染请求体并发送到配置的地址", async () => {
+    const lines: string[] = [];
+    const notifier = createNotifier(
+      {
+        url: `${baseUrl}/hook`,
+        method: "POST",
+        headers: { "X-Token": "secret" },
+        body: {
+          text: "{author} 已将 {source} 合并到 {target}（{shortSha}）\n{commits}",
+          sha: "{sha}",
+          commits: "{commits}",
+        },
+        retries: 0,
+      },
+      lines
+    );
+
+    await notifier.notify("feature/login", MERGED);
+
+    assert.strictEqual(received.length, 1);
+    assert.strictEqual(received[0].method, "POST");
+    assert.strictEqual(received[0].headers["x-token"], "secret");
+    assert.strictEqual(received[0].headers["content-type"], "application/json");
+    assert.deepStrictEqual(JSON.parse(received[0].body), {
+      text:
+        "merger 已将 feature/login 合并到 uat（abcdef01）\n" +
+        "- feat: 登录 (11111111, alice)\n" +
+        "- fix: 校验 (22222222, bob)",
+      sha: MERGE_SHA,
+      commits: COMMITS,
+    });
+    assert.deepStrictEqual(lines, []);
+  });
+
+  it("5xx 响应按配置次数重试，并记录每次失败", async () => {
+    const lines: string[] = [];
+    statuses = [500, 502, 503];
+    const notifier = createNotifier(
+      { url: `${baseUrl}/hook`, method: "POST", headers: {}, retries: 2 },
+      lines
+    );
+
+    await notifier.notify("feature/login", MERGED);
+
+    assert.strictEqual(received.length, 3);
+    assert.strictEqual(lines.length, 3);
+    assert.match(lines[0], /第 1\/3 次.*HTTP 500/);
+    assert.match(lines[2], /第 3\/3 次.*HTTP 503/);
+  });
+
+  it("重试成功后不再发送", async () => {
+    const lines: string[] = [];
+    statuses = [500];
+    const notifier = createNotifier(
+      { url: `${baseUrl}/hook`, method: "POST", headers: {}, retries: 3 },
+      lines
+    );
+
+    await notifier.notify("feature/login", MERGED);
+
+    assert.strictEqual(received.length, 2);
+    assert.strictEqual(lines.length, 1);
+  });
+
+  it("连接失败时重试并记录错误", async () => {
+    const closed = http.createServer();
+    await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const lines: string[] = [];
+    const notifier = createNotifier(
+      { url: `http://127.0.0.1:${port}/hook`, method: "POST", headers: {}, retries: 1 },
+      lines
+    );
+
+    await notifier.notify("feature/login", MERGED);
+
+    assert.strictEqual(lines.length, 2);
+    assert.match(lines[1], /第 2\/2 次.*ECONNREFUSED/);
+  });
+
+  it("只通知合并成功的目标", async () => {
+    const lines: string[] = [];
+    const notifier = createNotifier(
+      { url: `${baseUrl}/hook`, method: "POST", headers: {}, retries: 0 },
+      lines
+    );
+
+    await notifier.notify("feature/login", [
+      { target: "uat", status: "conflicted" },
+      { target: "uat", status: "already-merged", commitSha: MERGE_SHA },
+    ]);
+
+    assert.strictEqual(received.length, 0);
+  });
+});
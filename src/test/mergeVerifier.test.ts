@@ -0,0 +1,108 @@
+import "./vscodeShim";
+import * as assert from "assert";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { GitOperations } from "../gitOperations";
+import type { TargetVerifyCommand } from "../mergeTargetConfigManager";
+import { MergeVerifier } from "../mergeVerifier";
+
+/** 校验命令依赖被 Git 忽略的 deps 目录，类似依赖 node_modules 的 npm test */
+const VERIFY: TargetVerifyCommand[] = [
+  { command: `node -e "require('fs').accessSync('deps/ready')"`, timeoutSeconds: 30 },
+];
+
+/** 模拟 npm ci：在当前目录生成依赖 */
+const SETUP: TargetVerifyCommand[] = [
+  {
+    command: `node -e "require('fs').mkdirSync('deps');require('fs').writeFileSync('deps/ready','')"`,
+    timeoutSeconds: 30,
+  },
+];
+
+function git(cwd: string, ...args: string[]): void {
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+    cwd,
+    stdio: "ignore",
+  });
+}
+
+describe("MergeVerifier in a temporary worktree", () => {
+  let repo: string;
+  let gitOps: GitOperations;
+  let worktreePath: string;
+  let lines: string[];
+  let verifier: MergeVerifier;
+
+  before(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "merge-verifier-"));
+    git(repo, "init", "-q");
+    fs.writeFileSync(path.join(repo, ".gitignore"), "deps/\n");
+    git(repo, "add", ".gitignore");
+    git(repo, "commit", "-q", "-m", "init");
+    // 主工作区已安装依赖，校验命令在这里可以通过
+    fs.mkdirSync(path.join(repo, "deps"));
+    fs.writeFileSync(path.join(repo, "deps", "ready"), "");
+    gitOps = new GitOperations(repo);
+  });
+
+  after(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    if (worktreePath) {
+      await gitOps.removeWorktree(worktreePath);
+    }
+    worktreePath = await gitOps.addTemporaryWorktree("uat");
+    lines = [];
+    verifier = new MergeVerifier({
+      outputChannel: {
+        append: (text: string) => lines.push(text),
+        appendLine: (line: string) => lines.push(line),
+        show: () => undefined,
+      },
+    });
+  });
+
+  it("passes in the main workspace where ignored dependencies exist", async () => {
+    await verifier.run("uat", VERIFY, repo);
+    assert.ok(lines.some((line) => line.startsWith("✓ 通过")));
+  });
+
+  it("fails in the worktree when no setup command installs the dependencies", async () => {
+    await assert.rejects(verifier.run("uat", VERIFY, worktreePath), (error: any) => {
+      assert.strictEqual(error.code, "VERIFICATION_FAILED");
+      assert.match(error.message, /^校验命令失败/);
+      return true;
+    });
+  });
+
+  it("runs setup commands in the worktree before the verify commands", async () => {
+    await verifier.run("uat", VERIFY, worktreePath, undefined, SETUP);
+
+    assert.ok(fs.existsSync(path.join(worktreePath, "deps", "ready")));
+    const commands = lines.filter((line) => line.startsWith("$ "));
+    assert.deepStrictEqual(commands, [`$ ${SETUP[0].command}`, `$ ${VERIFY[0].command}`]);
+  });
+
+  it("reports a failing setup command and skips the verify commands", async () => {
+    const failing: TargetVerifyCommand[] = [{ command: `node -e "process.exit(3)"`, timeoutSeconds: 30 }];
+
+    await assert.rejects(verifier.run("uat", VERIFY, worktreePath, undefined, failing), (error: any) => {
+      assert.strictEqual(error.code, "VERIFICATION_FAILED");
+      assert.match(error.message, /^准备命令失败（退出码 3）/);
+      return true;
+    });
+    assert.ok(!lines.includes(`$ ${VERIFY[0].command}`));
+  });
+
+  it("skips setup commands when the target has no verify commands", async () => {
+    await verifier.run("uat", [], worktreePath, undefined, SETUP);
+
+    assert.deepStrictEqual(lines, []);
+    assert.ok(!fs.existsSync(path.join(worktreePath, "deps")));
+  });
+});
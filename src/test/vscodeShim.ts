@@ -0,0 +1,16 @@
+import Module = require("module");
+
+/**
+ * 单元测试在普通 Node 进程中运行，没有 vscode 模块；被测代码通过注入的依赖访问编辑器能力，这里只需让 require("vscode") 成功
+ */
+const loader = Module as unknown as {
+  _load(request: string, parent: unknown, isMain: boolean): unknown;
+};
+const originalLoad = loader._load;
+
+loader._load = function (request: string, parent: unknown, isMain: boolean): unknown {
+  if (request === "vscode") {
+    return {};
+  }
+  return originalLoad.call(this, request, parent, isMain);
+};